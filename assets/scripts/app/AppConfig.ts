@@ -18,6 +18,27 @@ export const GameConfig = {
   bombRadius: 1,
   startBombs: 3,
 
-  megaBombMinGroupSize: 5,
+  // special tiers: rocket < color clear < mega bomb
+  rocketMinGroupSize: 4,
+  colorClearMinGroupSize: 5,
+
+  megaBombMinGroupSize: 7,
   megaBombScoreMultiplier: 2,
+
+  // idle seconds before the best group is highlighted (0 = hints off)
+  hintDelaySeconds: 5,
+
+  // how many moves can be taken back (0 = undo off)
+  undoLimit: 50,
+
+  // timed levels: starting clock, bonus per extra tile, freeze after a booster
+  timedModeSeconds: 60,
+  timeBonusPerTile: 0.5,
+  boosterFreezeSeconds: 3,
+
+  // endless levels: colors at start, moves per stage, crate chance of refills
+  endlessStartColors: 3,
+  endlessMovesPerStage: 15,
+  endlessCrateChancePerStage: 0.05,
+  endlessMaxCrateChance: 0.6,
 };
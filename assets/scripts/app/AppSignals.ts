@@ -9,5 +9,10 @@ export enum AppSignal {
 
   NO_MOVES_OK_CLICKED = 'NO_MOVES_OK_CLICKED',
 
+  UNDO_CLICKED = 'UNDO_CLICKED',
+  REDO_CLICKED = 'REDO_CLICKED',
+
+  LEVEL_SELECTED = 'LEVEL_SELECTED',
+
   MEGA_BOMB_EXPLODED = 'MEGA_BOMB_EXPLODED',
 }
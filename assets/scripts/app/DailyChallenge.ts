@@ -0,0 +1,191 @@
+// assets/scripts/app/DailyChallenge.ts
+
+import { LevelDefinition } from './LevelDefinition';
+import { LevelResult, STAR_COUNT } from './LevelResult';
+
+/** cc.sys.localStorage key of the daily challenge progress. */
+export const DAILY_STORAGE_KEY = 'match-blast.daily';
+
+/** Level ids of daily challenges start with this prefix. */
+const DAILY_LEVEL_PREFIX = 'daily-';
+
+/** Counted attempt of one day. */
+export interface DailyResult {
+  date: string;
+  won: boolean;
+  score: number;
+  stars: number;
+  movesMade: number;
+}
+
+/**
+ * Only the first finished attempt of a day is counted.
+ * The streak is the number of days in a row with a won challenge.
+ */
+export interface DailyProgress {
+  /** Results by date key ("2026-10-19"), only the latest ones are kept. */
+  results: { [date: string]: DailyResult };
+  streak: number;
+  bestStreak: number;
+  /** Date of the last won challenge, null before the first win. */
+  lastWonDate: string | null;
+}
+
+/** How many days of results are kept in storage. */
+const KEPT_RESULTS = 30;
+
+/** Local calendar date as "YYYY-MM-DD". */
+export function getDateKey(date: Date): string {
+  const month = date.getMonth() + 1;
+  const day = date.getDate();
+  return `${date.getFullYear()}-${month < 10 ? '0' : ''}${month}-${
+    day < 10 ? '0' : ''
+  }${day}`;
+}
+
+/** Date key of the day before `dateKey`. */
+export function getPreviousDateKey(dateKey: string): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return getDateKey(new Date(year, month - 1, day - 1));
+}
+
+/** Board + refill seed of a date: the same for every player (FNV-1a hash). */
+export function createDailySeed(dateKey: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < dateKey.length; i++) {
+    hash ^= dateKey.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash >>> 0;
+}
+
+/** Challenge of a date: `base` rules with a date id and a fixed seed. */
+export function createDailyLevel(
+  base: LevelDefinition,
+  dateKey: string
+): LevelDefinition {
+  return {
+    ...base,
+    id: DAILY_LEVEL_PREFIX + dateKey,
+    seed: createDailySeed(dateKey),
+  };
+}
+
+export function isDailyLevel(levelId: string): boolean {
+  return levelId.indexOf(DAILY_LEVEL_PREFIX) === 0;
+}
+
+/** Date key of a daily level id, e.g. "daily-2026-10-19" → "2026-10-19". */
+export function getDailyDate(levelId: string): string {
+  return levelId.substr(DAILY_LEVEL_PREFIX.length);
+}
+
+export function createDailyProgress(): DailyProgress {
+  return { results: {}, streak: 0, bestStreak: 0, lastWonDate: null };
+}
+
+export function serializeDailyProgress(progress: DailyProgress): string {
+  return JSON.stringify(progress);
+}
+
+/** Stored progress, or empty progress if the text is missing or broken. */
+export function parseDailyProgress(text: string | null): DailyProgress {
+  if (!text) return createDailyProgress();
+
+  try {
+    const raw = JSON.parse(text);
+    if (
+      raw &&
+      typeof raw.results === 'object' &&
+      raw.results &&
+      typeof raw.streak === 'number'
+    ) {
+      return {
+        results: raw.results,
+        streak: raw.streak,
+        bestStreak: raw.bestStreak || raw.streak,
+        lastWonDate: raw.lastWonDate || null,
+      };
+    }
+  } catch (e) {
+    // fall through to empty progress
+  }
+  return createDailyProgress();
+}
+
+/** Counted result of the date, null if it hasn't been played yet. */
+export function getDailyResult(
+  progress: DailyProgress,
+  dateKey: string
+): DailyResult | null {
+  return progress.results[dateKey] || null;
+}
+
+/** Streak as of `dateKey`: it is lost once a whole day passes without a win. */
+export function getCurrentStreak(
+  progress: DailyProgress,
+  dateKey: string
+): number {
+  const last = progress.lastWonDate;
+  if (last === dateKey || last === getPreviousDateKey(dateKey)) {
+    return progress.streak;
+  }
+  return 0;
+}
+
+/**
+ * Count a finished attempt of the date's challenge.
+ * Returns false (and changes nothing) if that day already has a result.
+ */
+export function recordDailyResult(
+  progress: DailyProgress,
+  dateKey: string,
+  result: LevelResult
+): boolean {
+  if (getDailyResult(progress, dateKey)) return false;
+
+  progress.results[dateKey] = {
+    date: dateKey,
+    won: result.won,
+    score: result.score,
+    stars: result.stars,
+    movesMade: result.movesMade,
+  };
+
+  if (result.won) {
+    progress.streak = getCurrentStreak(progress, dateKey) + 1;
+    progress.bestStreak = Math.max(progress.bestStreak, progress.streak);
+    progress.lastWonDate = dateKey;
+  } else {
+    progress.streak = 0;
+  }
+
+  // only the recent days are kept, the streak doesn't need older ones
+  const dates = Object.keys(progress.results).sort();
+  for (const date of dates.slice(0, Math.max(0, dates.length - KEPT_RESULTS))) {
+    delete progress.results[date];
+  }
+
+  return true;
+}
+
+/** Text to share, e.g. "Match Blast 2026-10-19\n★★☆ 1250\nПобеда за 14 ходов, серия 3". */
+export function formatDailySummary(
+  result: DailyResult,
+  streak: number
+): string {
+  let stars = '';
+  for (let i = 0; i < STAR_COUNT; i++) {
+    stars += i < result.stars ? '★' : '☆';
+  }
+
+  const outcome = result.won
+    ? `Победа за ${result.movesMade} ходов`
+    : `Не пройдено (${result.movesMade} ходов)`;
+
+  return [
+    `Match Blast ${result.date}`,
+    `${stars} ${result.score}`,
+    `${outcome}, серия ${streak}`,
+  ].join('\n');
+}
@@ -0,0 +1,53 @@
+// assets/scripts/app/EndlessMode.ts
+
+import { GameConfig } from './AppConfig';
+
+/**
+ * Difficulty curve of an endless level. Every `movesPerStage` moves
+ * start a new stage: one more color joins the board (in the order of
+ * the level `colors`) and refills turn into crates more often.
+ */
+export interface EndlessRules {
+  /** Colors at stage 0 (the first ones of the level colors). */
+  startColors: number;
+  movesPerStage: number;
+  /** Chance of a refilled cell to be a crate at stage 0. */
+  crateChance: number;
+  crateChancePerStage: number;
+  maxCrateChance: number;
+}
+
+/** What the board uses at one stage. */
+export interface EndlessDifficulty {
+  stage: number;
+  colorCount: number;
+  crateChance: number;
+}
+
+export function createEndlessRules(): EndlessRules {
+  return {
+    startColors: GameConfig.endlessStartColors,
+    movesPerStage: GameConfig.endlessMovesPerStage,
+    crateChance: 0,
+    crateChancePerStage: GameConfig.endlessCrateChancePerStage,
+    maxCrateChance: GameConfig.endlessMaxCrateChance,
+  };
+}
+
+/** Difficulty after `movesMade` moves with `colorPool` level colors. */
+export function getEndlessDifficulty(
+  rules: EndlessRules,
+  movesMade: number,
+  colorPool: number
+): EndlessDifficulty {
+  const stage = Math.floor(movesMade / rules.movesPerStage);
+
+  return {
+    stage,
+    colorCount: Math.min(colorPool, rules.startColors + stage),
+    crateChance: Math.min(
+      rules.maxCrateChance,
+      rules.crateChance + stage * rules.crateChancePerStage
+    ),
+  };
+}
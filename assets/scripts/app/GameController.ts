@@ -1,193 +1,233 @@
-import { debugLog } from '../debug/Debug';
-import { TileClickPayload, TILE_COLORS, TilePos } from '../shared/types';
-import BoardModel from '../domain/BoardModel';
+import { debugLog, isDebugEnabled } from '../debug/Debug';
+import { TileClickPayload, TilePos, TileSpecial } from '../shared/types';
+import { createRandomSeed } from '../shared/Random';
 import BoardFiller from '../board/BoardFiller';
 import HUDScore from '../ui/HUDScore';
-import GameState from './GameState';
-import { BoardConfig, GameConfig } from './AppConfig';
-import TeleportController, {
-  TeleportClickResult,
-} from './controllers/TeleportController';
-import BombController from './controllers/BombController';
-import MegaBombController from './controllers/MegaBombController';
+import HUDObjectives from '../ui/HUDObjectives';
+import GameSession, { SessionSnapshot } from './GameSession';
+import { GameStateData } from './GameState';
+import { createLevelResult, LevelResult } from './LevelResult';
+import { isDailyLevel } from './DailyChallenge';
+import { GameConfig } from './AppConfig';
+import { GameEvent, TilesRemovedEvent } from './GameEvents';
+import { createDefaultLevel, LevelDefinition } from './LevelDefinition';
+import { decodeReplay, encodeReplay, Replay, ReplayAction } from './Replay';
+import { createSaveData, SaveData } from './SaveGame';
+import { ChainTrigger } from './controllers/ChainReactionController';
+import HintController from './controllers/HintController';
+import HistoryController from './controllers/HistoryController';
 
 export type NoMovesCallback = (reshufflesLeft: number) => void;
 export type BombsChangedCallback = (bombsLeft: number) => void;
 export type TeleportsChangedCallback = (teleportsLeft: number) => void;
-
-interface EndTurnOptions {
-  updateBombs?: boolean;
-  removedCells?: TilePos[];
+export type LevelFinishedCallback = (result: LevelResult) => void;
+export type HistoryChangedCallback = (
+  canUndo: boolean,
+  canRedo: boolean
+) => void;
+
+interface ReplayPlayback {
+  actions: ReplayAction[];
+  next: number;
+  timer: number;
 }
 
+/** Pause between replayed actions (after the previous animation ends). */
+const REPLAY_STEP_SECONDS = 0.35;
+
 /**
- * Central game logic controller:
- * - owns BoardModel and GameState
- * - reacts to input (tile clicks, boosters, reshuffles)
- * - coordinates BoardFiller animations and HUD updates
+ * Adapter between the headless GameSession and the Cocos view layer:
+ * - forwards input (tile clicks, boosters, reshuffles) to the session
+ * - plays the returned GameEvents as BoardFiller animations
+ * - updates HUD and notifies GameEntry through callbacks
  */
 export default class GameController {
-  private boardModel: BoardModel | null = null;
+  private session: GameSession | null = null;
   private boardFiller: BoardFiller;
   private hudScore: HUDScore | null = null;
-  private gameState: GameState | null = null;
+  private hudObjectives: HUDObjectives | null = null;
+
+  /** Level currently being played (reused on restart). */
+  private level: LevelDefinition = createDefaultLevel();
+
+  private hintController: HintController;
+  private history: HistoryController<SessionSnapshot>;
 
-  private lastSelected: TilePos | null = null;
+  /** Inputs of the current game (with its level and seed). */
+  private replay: Replay = { levelId: '', seed: 0, actions: [] };
 
-  private teleportController: TeleportController;
-  private bombController: BombController;
-  private megaBombController: MegaBombController;
+  /** Active replay playback, null in normal play. */
+  private playback: ReplayPlayback | null = null;
 
   /** Whether any animations are currently running (removal, gravity, teleports, etc.). */
   private isAnimating: boolean = false;
 
+  /** "No moves" reported, waiting for the player to confirm the reshuffle. */
+  private noMovesPending: boolean = false;
+
   /** Callbacks into View layer (GameEntry / popups / buttons). */
-  onWin: (() => void) | null = null;
-  onLose: (() => void) | null = null;
+  onWin: LevelFinishedCallback | null = null;
+  onLose: LevelFinishedCallback | null = null;
   onNoMoves: NoMovesCallback | null = null;
   onBombsChanged: BombsChangedCallback | null = null;
   onTeleportsChanged: TeleportsChangedCallback | null = null;
-
-  constructor(boardFiller: BoardFiller, hudScore: HUDScore | null) {
+  onHistoryChanged: HistoryChangedCallback | null = null;
+  onReplayFinished: (() => void) | null = null;
+  /** End of every turn: save of the level, null once it is finished. */
+  onProgressChanged: ((save: SaveData | null) => void) | null = null;
+
+  constructor(
+    boardFiller: BoardFiller,
+    hudScore: HUDScore | null,
+    hudObjectives: HUDObjectives | null = null
+  ) {
     this.boardFiller = boardFiller;
     this.hudScore = hudScore;
+    this.hudObjectives = hudObjectives;
 
-    this.teleportController = new TeleportController(null);
-    this.bombController = new BombController(null);
-    this.megaBombController = new MegaBombController(
-      null,
-      GameConfig.megaBombMinGroupSize
-    );
+    this.hintController = new HintController(null);
+    this.history = new HistoryController(GameConfig.undoLimit);
   }
 
   // === PUBLIC API ===
 
-  /** Start or restart the game with a fresh board and state. */
-  public initNewGame() {
-    debugLog('GameController', 'initNewGame()');
-
-    this.isAnimating = false;
-
-    this.boardModel = new BoardModel(
-      BoardConfig.rows,
-      BoardConfig.cols,
-      TILE_COLORS
+  /**
+   * Start or restart the game with a fresh board and state.
+   * Uses the given level (or the current one) instead of global configs.
+   * The same seed always yields the same board and refill sequence.
+   * Returns the seed actually used (the level seed or a random one if not provided).
+   */
+  public initNewGame(
+    level: LevelDefinition = this.level,
+    seed: number = level.seed !== undefined ? level.seed : createRandomSeed()
+  ): number {
+    debugLog(
+      'GameController',
+      `initNewGame(), level=${level.id}, seed=${seed}`
     );
-    this.boardModel.randomFill();
-    this.boardFiller.renderFromGrid(this.boardModel.grid);
 
-    this.gameState = new GameState();
-    this.lastSelected = null;
+    const session = this.startSession(level, seed);
 
-    this.teleportController.setBoard(this.boardModel);
-    this.teleportController.reset();
+    this.playEvents(session.start());
+    this.notifyProgress();
 
-    this.bombController.setBoard(this.boardModel);
-    this.bombController.reset();
-
-    this.megaBombController.setBoard(this.boardModel);
+    return seed;
+  }
 
+  /**
+   * Continue a saved level: board (with specials, obstacles, ice),
+   * score, moves, boosters and reshuffles come from the save.
+   */
+  public resumeGame(save: SaveData, level: LevelDefinition) {
     debugLog(
       'GameController',
-      `state: score=${this.gameState.data.score}, movesLeft=${this.gameState.data.movesLeft}, target=${this.gameState.data.targetScore}, reshufflesLeft=${this.gameState.data.reshufflesLeft}, bombsLeft=${this.gameState.data.bombsLeft}, teleportsLeft=${this.gameState.data.teleportsLeft}`
+      `resumeGame(), level=${level.id}, seed=${save.seed}`
     );
 
-    if (this.hudScore) {
-      this.hudScore.applyGameState(this.gameState.data);
-    }
+    const session = this.startSession(level, save.seed);
 
-    if (this.onBombsChanged) {
-      this.onBombsChanged(this.gameState.data.bombsLeft);
+    try {
+      this.replay = decodeReplay(save.replay);
+    } catch (e) {
+      debugLog('GameController', `resume: replay dropped (${e.message})`);
     }
 
-    if (this.onTeleportsChanged) {
-      this.onTeleportsChanged(this.gameState.data.teleportsLeft);
-    }
+    const events = session.restoreSnapshot({
+      board: save.board,
+      state: save.state,
+    });
+    this.renderBoard();
+    this.applyStateToUI();
 
-    this.ensureHasMoves();
+    this.playEvents(events);
   }
 
-  /**
-   * Tile click entrypoint.
-   * Behavior depends on current mode: teleport, bomb, mega bomb or normal group removal.
-   */
-  public onTileClick(payload: TileClickPayload) {
-    if (!this.isGameInteractive()) return;
-    if (!this.boardModel) return;
+  public getLevel(): LevelDefinition {
+    return this.level;
+  }
 
-    // 1) Teleport mode: delegate to TeleportController
-    if (this.teleportController.isActive()) {
-      const result = this.teleportController.handleClick(payload);
-      this.handleTeleportResult(result);
-      return;
-    }
+  /** Seed of the current game, e.g. to attach to a bug report. */
+  public getSeed(): number {
+    return this.session ? this.session.seed : 0;
+  }
 
-    // 2) Bomb mode: use BombController around clicked cell
-    if (this.bombController.isActive()) {
-      this.handleBombClick(payload);
-      return;
-    }
+  /** Current headless session (board + state), null before the first game. */
+  public getSession(): GameSession | null {
+    return this.session;
+  }
 
-    // 3) Clicked an existing mega bomb – blow up the whole board
-    if (this.megaBombController.isMegaBomb(payload.row, payload.col)) {
-      this.handleMegaBombClick(payload.row, payload.col);
+  /**
+   * Per-frame tick (from GameEntry.update).
+   * Runs the clock of timed levels, counts idle time
+   * and shows a hint when the player is stuck.
+   */
+  public update(dt: number) {
+    if (this.playback) {
+      this.stepPlayback(dt);
       return;
     }
 
-    // 4) Normal click on a colored group
-    this.handleNormalTileClick(payload);
-  }
+    if (!this.isGameInteractive()) return;
 
-  /** Booster button: toggle teleport mode. */
-  public onBoosterTeleportClick() {
+    this.tickClock(dt);
     if (!this.isGameInteractive()) return;
-    if (!this.gameState) return;
+    if (this.isTeleportActive() || this.isBombActive()) return;
 
-    if (!this.gameState.canUseTeleport()) {
-      debugLog(
-        'GameController',
-        'Booster TELEPORT clicked, but no teleports left'
-      );
-      return;
+    const hint = this.hintController.tick(dt);
+    if (hint) {
+      this.boardFiller.showHint(hint.cells);
     }
+  }
 
-    // Teleport and bomb modes must not be active at the same time
-    this.bombController.reset();
-    this.clearSelection();
+  /**
+   * Tile click entrypoint.
+   * Behavior depends on current mode: teleport, bomb, specials or normal group removal.
+   * Like every player input, ignored while a replay is playing.
+   */
+  public onTileClick(payload: TileClickPayload) {
+    if (this.playback) return;
+    this.clickTile({ row: payload.row, col: payload.col });
+  }
 
-    this.teleportController.toggle();
+  /** Booster button: toggle teleport mode. */
+  public onBoosterTeleportClick() {
+    if (this.playback) return;
+    this.toggleTeleport();
   }
 
   /** Booster button: toggle bomb mode. */
   public onBoosterBombClick() {
-    if (!this.isGameInteractive()) return;
-    if (!this.gameState) return;
-
-    if (!this.gameState.canUseBomb()) {
-      debugLog('GameController', 'Booster BOMB clicked, but no bombs left');
-      return;
-    }
-
-    // Bomb and teleport modes are mutually exclusive
-    this.teleportController.reset();
-
-    this.bombController.toggle();
+    if (this.playback) return;
+    this.toggleBomb();
   }
 
   /** "No moves" popup confirmed by user. */
   public onNoMovesPopupOk() {
-    if (!this.isGameInteractive()) return;
-    if (!this.gameState) return;
+    if (this.playback) return;
+    this.confirmNoMoves();
+  }
 
-    const used = this.gameState.useReshuffle();
-    if (!used) {
-      this.forceLoseByNoMoves();
-      return;
-    }
+  /**
+   * Take back the last move: board, score, moves, boosters and reshuffles
+   * return to the position before it. Not available once the game is over.
+   */
+  public onUndoClick() {
+    if (this.playback) return;
+    this.undo();
+  }
+
+  /** Replay a move taken back by undo (same refills thanks to the RNG state). */
+  public onRedoClick() {
+    if (this.playback) return;
+    this.redo();
+  }
 
-    this.reshuffleBoard();
-    this.ensureHasMoves();
-    this.checkGameOver();
+  public canUndo(): boolean {
+    return !this.isAnimating && this.isHistoryOpen() && this.history.canUndo();
+  }
+
+  public canRedo(): boolean {
+    return !this.isAnimating && this.isHistoryOpen() && this.history.canRedo();
   }
 
   /** Restart current level. */
@@ -195,331 +235,544 @@ export default class GameController {
     this.initNewGame();
   }
 
-  // === INTERNAL LOGIC ===
+  public isTeleportActive(): boolean {
+    return !!this.session && this.session.isTeleportActive();
+  }
 
-  /** Normal tile click (no bomb, no teleport, no mega bomb). */
-  private handleNormalTileClick(payload: TileClickPayload) {
-    if (!this.boardModel || !this.gameState) return;
+  public isBombActive(): boolean {
+    return !!this.session && this.session.isBombActive();
+  }
 
-    const group = this.boardModel.findGroup(payload.row, payload.col);
-    const size = group.length;
+  // === EVENT PLAYBACK ===
 
-    if (!this.gameState.canRemoveGroup(size)) {
+  /**
+   * Play session events one after another.
+   * Input is blocked until the last animation finishes.
+   */
+  private playEvents(events: GameEvent[], onComplete?: () => void) {
+    if (events.length === 0) {
+      if (onComplete) onComplete();
       return;
     }
 
-    this.clearSelection();
-
-    this.gameState.applyGroup(size);
+    this.isAnimating = true;
 
-    const center: TilePos = { row: payload.row, col: payload.col };
+    const playFrom = (index: number) => {
+      if (index >= events.length) {
+        this.isAnimating = false;
+        if (onComplete) onComplete();
+        return;
+      }
 
-    // Large groups may spawn a mega bomb instead of simple removal
-    if (this.megaBombController.canCreateFromSize(size)) {
-      const result = this.megaBombController.createFromGroup(group, center);
+      const event = events[index];
 
-      if (result.created) {
-        this.boardFiller.setMegaBombVisual(center.row, center.col);
+      // gravity and refills of one turn animate together
+      if (event.type === 'tilesMoved') {
+        const next = events[index + 1];
+        const spawned = next && next.type === 'tilesSpawned' ? next : null;
 
-        this.applyBoardChangesAndEndTurn({
-          removedCells: result.removedCells,
-        });
+        this.boardFiller.applyGravityAndRefillAnimations(
+          this.session!.board.grid,
+          event.movements,
+          spawned ? spawned.refills : [],
+          event.gravity,
+          () => playFrom(index + (spawned ? 2 : 1))
+        );
         return;
       }
+
+      this.playEvent(event, () => playFrom(index + 1));
+    };
+
+    playFrom(0);
+  }
+
+  /** Play a single event, `done` is called when its animation is over. */
+  private playEvent(event: GameEvent, done: () => void) {
+    switch (event.type) {
+      case 'tileSelected': {
+        const view = this.boardFiller.getTileView(event.pos.row, event.pos.col);
+        if (view) view.setSelected(event.selected);
+        done();
+        break;
+      }
+      case 'specialCreated':
+        if (event.special === TileSpecial.MegaBomb) {
+          this.boardFiller.setMegaBombVisual(event.pos.row, event.pos.col);
+        } else {
+          this.boardFiller.setSpecialVisual(
+            event.pos.row,
+            event.pos.col,
+            event.special
+          );
+        }
+        done();
+        break;
+      case 'tilesRemoved':
+        this.playRemoval(event, done);
+        break;
+      case 'tilesSpawned':
+        // normally consumed together with 'tilesMoved'
+        this.boardFiller.applyGravityAndRefillAnimations(
+          this.session!.board.grid,
+          [],
+          event.refills,
+          event.gravity,
+          done
+        );
+        break;
+      case 'dropItemsCollected':
+        this.boardFiller.removeTileViews(event.cells, done);
+        break;
+      case 'tilesSwapped':
+        this.playTeleportSwap(event.from, event.to, done);
+        break;
+      case 'boardShuffled':
+        this.boardFiller.playShuffleAnimations(event.moves, done);
+        break;
+      case 'boardReset':
+        this.renderBoard();
+        done();
+        break;
+      case 'scoreChanged':
+        this.applyHUD(event.state);
+        done();
+        break;
+      case 'levelBonus':
+        debugLog(
+          'GameController',
+          `level bonus: moves=${event.moves}, boosters=${event.boosters}`
+        );
+        this.applyHUD(event.state);
+        done();
+        break;
+      case 'boostersChanged':
+        if (this.onBombsChanged) this.onBombsChanged(event.bombsLeft);
+        if (this.onTeleportsChanged) {
+          this.onTeleportsChanged(event.teleportsLeft);
+        }
+        done();
+        break;
+      case 'boosterFailed':
+        debugLog(
+          'GameController',
+          `${event.booster} booster failed: no charges left`
+        );
+        done();
+        break;
+      case 'noMoves':
+        this.noMovesPending = true;
+        if (this.onNoMoves) this.onNoMoves(event.reshufflesLeft);
+        done();
+        break;
+      case 'gameOver': {
+        if (isDebugEnabled()) {
+          debugLog('GameController', `replay: ${encodeReplay(this.replay)}`);
+        }
+        const result = createLevelResult(this.session!.state.data);
+        if (event.reason === 'win') {
+          if (this.onWin) this.onWin(result);
+        } else if (this.onLose) {
+          this.onLose(result);
+        }
+        done();
+        break;
+      }
+      default:
+        done();
     }
+  }
 
-    this.boardModel.removeGroup(group);
+  /** One removal wave: trigger effects, ice hits, then burn tiles and crates. */
+  private playRemoval(event: TilesRemovedEvent, done: () => void) {
+    event.triggers.forEach((t) => this.playTriggerEffect(t));
+    this.boardFiller.applyIceHits(event.obstacles.iceHits);
 
-    this.applyBoardChangesAndEndTurn({
-      removedCells: group,
-    });
+    this.boardFiller.removeTileViews(
+      event.cells.concat(event.obstacles.brokenCrates),
+      done
+    );
   }
 
-  /** Click on regular bomb booster. */
-  private handleBombClick(payload: TileClickPayload) {
-    if (!this.boardModel || !this.gameState) return;
+  /** Visual effect for a bomb / special going off. */
+  private playTriggerEffect(trigger: ChainTrigger) {
+    if (!this.session) return;
 
-    const cells = this.bombController.handleClick(payload.row, payload.col);
-    const size = cells.length;
-    if (size === 0) {
-      debugLog('GameController', 'Bomb click: no cells to remove');
-      return;
+    const { row, col } = trigger.pos;
+    const board = this.session.board;
+
+    switch (trigger.kind) {
+      case 'bomb':
+        this.boardFiller.playBombShake();
+        this.boardFiller.playBombFlash(row, col, this.session.getBombRadius());
+        break;
+      case TileSpecial.MegaBomb:
+        this.boardFiller.playBombShake();
+        this.boardFiller.playBombFlash(
+          row,
+          col,
+          Math.max(board.rows, board.cols)
+        );
+        break;
+      case TileSpecial.RocketH:
+      case TileSpecial.RocketV:
+        this.boardFiller.playLineFlash(
+          row,
+          col,
+          trigger.kind === TileSpecial.RocketH
+        );
+        break;
+      case TileSpecial.ColorClear:
+        this.boardFiller.playBombFlash(row, col, 1);
+        break;
     }
+  }
+
+  /** Teleport swap: both tiles fly to each other's place, then redraw. */
+  private playTeleportSwap(from: TilePos, to: TilePos, done: () => void) {
+    const viewA = this.boardFiller.getTileView(from.row, from.col);
+    const viewB = this.boardFiller.getTileView(to.row, to.col);
 
-    const used = this.gameState.useBomb();
-    if (!used) {
-      debugLog('GameController', 'Bomb click, but no bombs left in state');
+    if (!viewA || !viewB) {
+      this.renderBoard();
+      done();
       return;
     }
 
-    const gained = this.gameState.applyBomb(size);
-    debugLog(
-      'GameController',
-      `BOMB remove size=${size}, gained=${gained}, score=${this.gameState.data.score}, movesLeft=${this.gameState.data.movesLeft}, bombsLeft=${this.gameState.data.bombsLeft}`
-    );
+    const posA = viewA.node.position.clone();
+    const posB = viewB.node.position.clone();
 
-    const radius = this.bombController.getRadius();
-    this.boardFiller.playBombShake();
-    this.boardFiller.playBombFlash(payload.row, payload.col, radius);
+    if (viewA.button) viewA.button.interactable = false;
+    if (viewB.button) viewB.button.interactable = false;
 
-    this.boardModel.removeGroup(cells);
+    let finished = 0;
+    const onDone = () => {
+      finished++;
+      if (finished < 2) return;
 
-    this.applyBoardChangesAndEndTurn({
-      updateBombs: true,
-      removedCells: cells,
-    });
+      this.renderBoard();
+      done();
+    };
+
+    viewA.playTeleportSwap(posB, onDone);
+    viewB.playTeleportSwap(posA, onDone);
   }
 
-  /** Click on mega bomb – removes all tiles on the board. */
-  private handleMegaBombClick(row: number, col: number) {
-    if (!this.boardModel || !this.gameState) return;
+  // === REPLAY ===
+
+  /** Inputs of the current game so far (copy). */
+  public getReplay(): Replay {
+    return {
+      levelId: this.replay.levelId,
+      seed: this.replay.seed,
+      actions: this.replay.actions.slice(),
+    };
+  }
 
-    const res = this.megaBombController.explode(row, col);
-    if (!res) return;
+  /**
+   * Restart `level` with the replay seed and feed the recorded actions
+   * back through the normal input methods, with animations.
+   * Player input is ignored while isReplaying() is true.
+   */
+  public playReplay(replay: Replay, level: LevelDefinition = this.level) {
+    if (replay.levelId !== level.id) {
+      debugLog(
+        'GameController',
+        `replay of "${replay.levelId}" played on level "${level.id}"`
+      );
+    }
 
-    const { removedCells, totalTiles } = res;
+    const session = this.startSession(level, replay.seed);
+    this.playback = { actions: replay.actions.slice(), next: 0, timer: 0 };
 
-    this.clearSelection();
-    this.teleportController.reset();
-    this.bombController.reset();
+    this.playEvents(session.start());
+  }
 
-    const gained = this.gameState.applyBomb(totalTiles);
-    debugLog(
-      'GameController',
-      `MEGA BOMB explode, tiles=${totalTiles}, gained=${gained}, score=${this.gameState.data.score}, movesLeft=${this.gameState.data.movesLeft}`
-    );
+  public isReplaying(): boolean {
+    return !!this.playback;
+  }
 
-    this.boardFiller.playBombShake();
-    this.boardFiller.playBombFlash(
-      row,
-      col,
-      Math.max(this.boardModel.rows, this.boardModel.cols)
-    );
+  /** Stop playback; the game continues from the current position. */
+  public stopReplay() {
+    this.playback = null;
+  }
 
-    this.applyBoardChangesAndEndTurn({
-      removedCells,
-    });
+  private recordAction(action: ReplayAction) {
+    this.replay.actions.push(action);
   }
 
-  /** Handle teleport click result (selection / reselection / swap). */
-  private handleTeleportResult(result: TeleportClickResult | null) {
-    if (!result) return;
+  /** Dispatch the next action once the previous one finished animating. */
+  private stepPlayback(dt: number) {
+    const playback = this.playback!;
+    if (this.isAnimating) return;
+
+    playback.timer += dt;
+    if (playback.timer < REPLAY_STEP_SECONDS) return;
+    playback.timer = 0;
 
-    switch (result.type) {
-      case 'select': {
-        const v = this.boardFiller.getTileView(result.pos.row, result.pos.col);
-        if (v) v.setSelected(true);
+    if (playback.next >= playback.actions.length) {
+      this.playback = null;
+      debugLog('GameController', 'replay finished');
+      if (this.onReplayFinished) this.onReplayFinished();
+      return;
+    }
+
+    const action = playback.actions[playback.next++];
+
+    switch (action.type) {
+      case 'tile':
+        this.clickTile({ row: action.row, col: action.col });
         break;
-      }
-      case 'deselect': {
-        const v = this.boardFiller.getTileView(result.pos.row, result.pos.col);
-        if (v) v.setSelected(false);
+      case 'bomb':
+        this.toggleBomb();
         break;
-      }
-      case 'reselect': {
-        const oldV = this.boardFiller.getTileView(
-          result.from.row,
-          result.from.col
-        );
-        if (oldV) oldV.setSelected(false);
-
-        const newV = this.boardFiller.getTileView(result.to.row, result.to.col);
-        if (newV) newV.setSelected(true);
+      case 'teleport':
+        this.toggleTeleport();
         break;
-      }
-      case 'swap': {
-        if (!this.boardModel || !this.gameState) return;
-
-        const usedTeleport = this.gameState.useTeleport();
-        if (!usedTeleport) {
-          debugLog(
-            'GameController',
-            'Teleport swap performed, but no teleports left in state'
-          );
-        } else {
-          debugLog(
-            'GameController',
-            `Teleport used, teleportsLeft=${this.gameState.data.teleportsLeft}`
-          );
-        }
+      case 'noMovesOk':
+        this.confirmNoMoves();
+        break;
+      case 'undo':
+        this.undo();
+        break;
+      case 'redo':
+        this.redo();
+        break;
+      case 'timeUp':
+        this.playTimeUp(this.session!.expireTime());
+        break;
+    }
+  }
 
-        if (this.onTeleportsChanged) {
-          this.onTeleportsChanged(this.gameState.data.teleportsLeft);
-        }
+  // === PLAYER ACTIONS (INPUT AND REPLAY) ===
 
-        const from = result.from;
-        const to = result.to;
+  private clickTile(pos: TilePos) {
+    // any click cancels the hint and restarts the idle countdown
+    this.hideHint();
 
-        const viewA = this.boardFiller.getTileView(from.row, from.col);
-        const viewB = this.boardFiller.getTileView(to.row, to.col);
+    if (!this.isGameInteractive()) return;
 
-        if (!viewA || !viewB) {
-          this.boardFiller.renderFromGrid(this.boardModel.grid);
-          this.ensureHasMoves();
-          this.checkGameOver();
-          return;
-        }
+    this.recordAction({ type: 'tile', row: pos.row, col: pos.col });
+    this.runMove(() => this.session!.clickTile(pos));
+  }
+
+  private toggleTeleport() {
+    this.hideHint();
+    if (!this.isGameInteractive()) return;
+
+    this.recordAction({ type: 'teleport' });
+    this.playEvents(this.session!.toggleTeleport());
+  }
+
+  private toggleBomb() {
+    this.hideHint();
+    if (!this.isGameInteractive()) return;
 
-        const posA = viewA.node.position.clone();
-        const posB = viewB.node.position.clone();
+    this.recordAction({ type: 'bomb' });
+    this.playEvents(this.session!.toggleBomb());
+  }
 
-        if (viewA.button) viewA.button.interactable = false;
-        if (viewB.button) viewB.button.interactable = false;
+  private confirmNoMoves() {
+    if (!this.isGameInteractive()) return;
+    this.noMovesPending = false;
 
-        this.isAnimating = true;
+    this.recordAction({ type: 'noMovesOk' });
+    this.runMove(() => this.session!.reshuffle());
+  }
 
-        let finished = 0;
-        const onDone = () => {
-          finished++;
-          if (finished < 2) return;
+  private undo() {
+    this.hideHint();
+    if (!this.canUndo()) return;
 
-          this.boardFiller.renderFromGrid(this.boardModel!.grid);
+    const previous = this.history.undo(this.session!.createSnapshot());
+    if (!previous) return;
 
-          this.ensureHasMoves();
-          this.checkGameOver();
+    this.recordAction({ type: 'undo' });
+    this.restorePosition(previous);
+  }
 
-          this.isAnimating = false;
-        };
+  private redo() {
+    this.hideHint();
+    if (!this.canRedo()) return;
 
-        viewA.playTeleportSwap(posB, onDone);
-        viewB.playTeleportSwap(posA, onDone);
+    const next = this.history.redo(this.session!.createSnapshot());
+    if (!next) return;
 
-        break;
-      }
-    }
+    this.recordAction({ type: 'redo' });
+    this.restorePosition(next);
   }
 
-  /** Check if there are any valid moves left, and trigger reshuffle/no-moves flow if needed. */
-  private ensureHasMoves() {
-    if (!this.boardModel || !this.gameState) return;
-    if (this.gameState.data.gameOver) return;
+  // === CLOCK (TIMED MODE) ===
 
-    const hasMoves = this.boardModel.hasAnyMoves(GameConfig.minGroupSize);
+  /**
+   * The clock runs only while the player can act: it stops during
+   * animations, replays and while the "no moves" popup is open.
+   */
+  private tickClock(dt: number) {
+    const session = this.session!;
+    if (!session.state.isTimed() || this.noMovesPending) return;
 
-    if (hasMoves) return;
+    const events = session.tick(dt);
 
-    if (!this.gameState.canUseReshuffle()) {
-      this.forceLoseByNoMoves();
-      return;
-    }
+    const { timeLeft, freezeLeft } = session.state.data;
+    if (this.hudScore) this.hudScore.setTime(timeLeft, freezeLeft > 0);
 
-    if (this.onNoMoves) {
-      this.onNoMoves(this.gameState.data.reshufflesLeft);
+    if (events.length > 0) {
+      this.playTimeUp(events);
     }
   }
 
-  /** Lose the level because there are no moves and no reshuffles left. */
-  private forceLoseByNoMoves() {
-    if (!this.gameState) return;
-    if (this.gameState.data.gameOver) return;
-
-    this.gameState.data.gameOver = true;
-    this.gameState.data.gameOverReason = 'lose';
-    this.checkGameOver();
+  /** Time is up: recorded for replays, not undoable as a move. */
+  private playTimeUp(events: GameEvent[]) {
+    this.hideHint();
+    this.recordAction({ type: 'timeUp' });
+    this.notifyHistoryChanged();
+    this.notifyProgress();
+    this.playEvents(events);
   }
 
-  /** Shuffle the board when there are no moves, consuming one reshuffle. */
-  private reshuffleBoard() {
-    if (!this.boardModel || !this.gameState) return;
-    if (this.gameState.data.gameOver) return;
+  // === HISTORY ===
 
-    this.boardModel.randomFill();
-    this.boardFiller.renderFromGrid(this.boardModel.grid);
+  /** Run a session command, remembering the position before it for undo. */
+  private runMove(command: () => GameEvent[]) {
+    const before = this.session!.createSnapshot();
+    const events = command();
 
-    this.lastSelected = null;
-    this.teleportController.reset();
-    this.bombController.reset();
+    // selection-only clicks (teleport) don't change the position
+    if (events.some((e) => e.type !== 'tileSelected')) {
+      this.history.record(before);
+      this.notifyHistoryChanged();
+      this.notifyProgress();
+    }
+
+    this.playEvents(events);
   }
 
-  // === GAME END ===
+  private restorePosition(snapshot: SessionSnapshot) {
+    // undo / redo don't give back time in timed mode
+    const events = this.session!.restoreSnapshot(snapshot, true);
+    this.noMovesPending = false;
 
-  private checkGameOver() {
-    if (!this.gameState || !this.gameState.data.gameOver) return;
+    this.renderBoard();
+    this.applyStateToUI();
+    this.notifyHistoryChanged();
+    this.notifyProgress();
 
-    if (this.gameState.data.gameOverReason === 'win') {
-      debugLog('GameController', 'GAME OVER: WIN');
-      if (this.onWin) this.onWin();
-    } else if (this.gameState.data.gameOverReason === 'lose') {
-      debugLog('GameController', 'GAME OVER: LOSE');
-      if (this.onLose) this.onLose();
-    }
+    this.playEvents(events);
   }
 
-  // === HELPERS ===
+  private notifyHistoryChanged() {
+    if (this.onHistoryChanged) {
+      this.onHistoryChanged(
+        this.isHistoryOpen() && this.history.canUndo(),
+        this.isHistoryOpen() && this.history.canRedo()
+      );
+    }
+  }
 
-  private isGameInteractive(): boolean {
+  /**
+   * Moves can be taken back / replayed only while the game goes on, and
+   * never in the daily challenge (only its first attempt counts) or in
+   * a hot-seat match (undo would hand the turn back to the other player).
+   */
+  private isHistoryOpen(): boolean {
     return (
-      !!this.boardModel &&
-      !!this.gameState &&
-      !this.gameState.data.gameOver &&
-      !this.isAnimating
+      !!this.session &&
+      !this.session.isOver() &&
+      !isDailyLevel(this.session.level.id) &&
+      this.session.level.players <= 1
     );
   }
 
-  private clearSelection() {
-    if (!this.lastSelected) return;
+  // === SAVE ===
 
-    const prevView = this.boardFiller.getTileView(
-      this.lastSelected.row,
-      this.lastSelected.col
-    );
-    if (prevView) prevView.setSelected(false);
+  /** End of turn: hand a fresh save (or null for a finished level) to GameEntry. */
+  private notifyProgress() {
+    // replays must not overwrite the player's own game
+    if (!this.session || this.playback || !this.onProgressChanged) return;
 
-    this.lastSelected = null;
+    this.onProgressChanged(
+      this.session.isOver() ? null : createSaveData(this.session, this.replay)
+    );
   }
 
-  public isTeleportActive(): boolean {
-    return this.teleportController.isActive();
-  }
+  // === HELPERS ===
 
-  public isBombActive(): boolean {
-    return this.bombController.isActive();
-  }
+  /** Fresh session for the level: board render, HUD, cleared history. */
+  private startSession(level: LevelDefinition, seed: number): GameSession {
+    this.isAnimating = false;
+    this.noMovesPending = false;
+    this.hideHint();
+    this.level = level;
+    this.replay = { levelId: level.id, seed, actions: [] };
+    this.playback = null;
 
-  /**
-   * Common end-of-turn pipeline after any board change (group removal, bomb, mega bomb).
-   * Applies gravity and refills, plays animations, updates HUD and checks for next moves / game over.
-   */
-  private applyBoardChangesAndEndTurn(options: EndTurnOptions = {}) {
-    if (!this.boardModel || !this.gameState) return;
+    const session = new GameSession(level, seed);
+    this.session = session;
 
-    this.isAnimating = true;
+    this.boardFiller.setTopology(level.topology);
+    this.renderBoard();
 
-    const afterRemove = () => {
-      const movements = this.boardModel!.applyGravity();
-      const refills = this.boardModel!.refillEmptyCells();
+    this.hintController.setBoard(session.board);
 
-      const finalize = () => {
-        this.lastSelected = null;
+    const data = session.state.data;
+    debugLog(
+      'GameController',
+      `state: score=${data.score}, movesLeft=${data.movesLeft}, target=${data.targetScore}, reshufflesLeft=${data.reshufflesLeft}, bombsLeft=${data.bombsLeft}, teleportsLeft=${data.teleportsLeft}`
+    );
 
-        if (this.hudScore) {
-          this.hudScore.applyGameState(this.gameState!.data);
-        }
+    this.applyStateToUI();
 
-        if (options.updateBombs && this.onBombsChanged) {
-          this.onBombsChanged(this.gameState!.data.bombsLeft);
-        }
+    this.history.clear();
+    this.notifyHistoryChanged();
 
-        this.ensureHasMoves();
-        this.checkGameOver();
+    return session;
+  }
 
-        this.isAnimating = false;
-      };
+  /** Push score, moves and booster counters of the session to the UI. */
+  private applyStateToUI() {
+    if (!this.session) return;
+    const data = this.session.state.data;
 
-      this.boardFiller.applyGravityAndRefillAnimations(
-        this.boardModel!.grid,
-        movements,
-        refills,
-        finalize
-      );
-    };
+    this.applyHUD(data);
+
+    if (this.onBombsChanged) {
+      this.onBombsChanged(data.bombsLeft);
+    }
 
-    const removed = options.removedCells;
+    if (this.onTeleportsChanged) {
+      this.onTeleportsChanged(data.teleportsLeft);
+    }
+  }
+
+  private applyHUD(data: GameStateData) {
+    if (this.hudScore) {
+      this.hudScore.applyGameState(data);
+    }
+    if (this.hudObjectives) {
+      this.hudObjectives.applyGameState(data);
+    }
+  }
+
+  private renderBoard() {
+    if (!this.session) return;
+
+    this.boardFiller.renderFromGrid(
+      this.session.board.grid,
+      this.session.board.getLayers()
+    );
+  }
+
+  private isGameInteractive(): boolean {
+    return !!this.session && !this.session.isOver() && !this.isAnimating;
+  }
 
-    if (removed && removed.length > 0) {
-      this.boardFiller.removeTileViews(removed, afterRemove);
-    } else {
-      afterRemove();
+  /** Stop hint pulse (if shown) and restart idle countdown. */
+  private hideHint() {
+    const hint = this.hintController.getCurrent();
+    if (hint) {
+      this.boardFiller.hideHint(hint.cells);
     }
+    this.hintController.reset();
   }
 }
@@ -4,11 +4,62 @@ import { debugLog, setDebug } from '../debug/Debug';
 import { TileClickPayload } from '../shared/types';
 import BoardFiller from '../board/BoardFiller';
 import HUDScore from '../ui/HUDScore';
+import HUDObjectives from '../ui/HUDObjectives';
 import GameController from './GameController';
 import PopupNoMoves from '../ui/PopupNoMoves';
 import BoosterTeleportButton from '../ui/BoosterTeleportButton';
 import BoosterBombButton from '../ui/BoosterBombButton';
 import PopupSimple from '../ui/PopupSimple';
+import PopupResults from '../ui/PopupResults';
+import PopupDaily from '../ui/PopupDaily';
+import UndoRedoButtons from '../ui/UndoRedoButtons';
+import LevelMap from '../ui/LevelMap';
+import { LevelMapEntry } from '../ui/LevelMapButton';
+import { decodeReplay } from './Replay';
+import { LevelResult } from './LevelResult';
+import {
+  createDailyLevel,
+  DAILY_STORAGE_KEY,
+  DailyProgress,
+  DailyResult,
+  formatDailySummary,
+  getCurrentStreak,
+  getDailyDate,
+  getDailyResult,
+  getDateKey,
+  isDailyLevel,
+  parseDailyProgress,
+  recordDailyResult,
+  serializeDailyProgress,
+} from './DailyChallenge';
+import {
+  canPlayHotSeat,
+  createHotSeatLevel,
+  getHotSeatBaseId,
+  isHotSeatLevel,
+} from './HotSeat';
+import {
+  getLevelRecord,
+  isLevelUnlocked,
+  LevelProgress,
+  LevelRecord,
+  parseProgress,
+  PROGRESS_STORAGE_KEY,
+  recordLevelResult,
+  serializeProgress,
+} from './LevelProgress';
+import {
+  isSaveForLevel,
+  parseSave,
+  SaveData,
+  SAVE_STORAGE_KEY,
+  serializeSave,
+} from './SaveGame';
+import {
+  createDefaultLevel,
+  LevelDefinition,
+  parseLevelDefinition,
+} from './LevelDefinition';
 
 const { ccclass, property } = cc._decorator;
 
@@ -26,20 +77,54 @@ export default class GameEntry extends cc.Component {
   @property(PopupNoMoves)
   popupNoMoves: PopupNoMoves = null;
 
+  /** Results of the daily challenge; win / lose popups are used if empty. */
+  @property(PopupDaily)
+  popupDaily: PopupDaily = null;
+
   @property(BoardFiller)
   boardFiller: BoardFiller = null;
 
   @property(HUDScore)
   hudScore: HUDScore = null;
 
+  @property(HUDObjectives)
+  hudObjectives: HUDObjectives = null;
+
   @property(BoosterTeleportButton)
   boosterTeleportButton: BoosterTeleportButton = null;
 
   @property(BoosterBombButton)
   boosterBombButton: BoosterBombButton = null;
 
+  @property(UndoRedoButtons)
+  undoRedoButtons: UndoRedoButtons = null;
+
+  /** Level JSON (see assets/levels). If empty, global configs are used. */
+  @property(cc.JsonAsset)
+  levelAsset: cc.JsonAsset = null;
+
+  /** Levels of the map, in unlock order. If empty, `levelAsset` is played without a map. */
+  @property([cc.JsonAsset])
+  levels: cc.JsonAsset[] = [];
+
+  @property(LevelMap)
+  levelMap: LevelMap = null;
+
+  /** Rules of the daily challenge (board comes from the date). If empty, the first level is used. */
+  @property(cc.JsonAsset)
+  dailyAsset: cc.JsonAsset = null;
+
+  /** Encoded replay (e.g. from a bug report). If set, it is played on start. */
+  @property({ multiline: true })
+  replayText: string = '';
+
   private controller: GameController = null;
 
+  /** Parsed `levels` (or the single level from `levelAsset`). */
+  private levelList: LevelDefinition[] = [];
+  private progress: LevelProgress = parseProgress(null);
+  private dailyProgress: DailyProgress = parseDailyProgress(null);
+
   onLoad() {
     // Toggle to true locally to see debug logs
     setDebug(false);
@@ -52,13 +137,26 @@ export default class GameEntry extends cc.Component {
       return;
     }
 
-    this.controller = new GameController(this.boardFiller, this.hudScore);
+    this.controller = new GameController(
+      this.boardFiller,
+      this.hudScore,
+      this.hudObjectives
+    );
 
-    this.controller.onWin = () => this.showWin();
-    this.controller.onLose = () => this.showLose();
+    this.controller.onWin = (result) => {
+      this.recordResult(result);
+      this.showWin(result);
+    };
+    this.controller.onLose = (result) => {
+      this.recordResult(result);
+      this.showLose(result);
+    };
     this.controller.onNoMoves = (left) => {
       debugLog('GameEntry', `NO MOVES, reshufflesLeft=${left}`);
 
+      // replay confirms the popup by itself
+      if (this.controller.isReplaying()) return;
+
       if (!this.overlayRoot || !this.popupNoMoves) return;
 
       this.overlayRoot.active = true;
@@ -81,6 +179,14 @@ export default class GameEntry extends cc.Component {
       }
     };
 
+    this.controller.onProgressChanged = (save) => this.writeSave(save);
+
+    this.controller.onHistoryChanged = (canUndo, canRedo) => {
+      if (this.undoRedoButtons) {
+        this.undoRedoButtons.setAvailable(canUndo, canRedo);
+      }
+    };
+
     EventBus.I.on(AppSignal.SHOW_POPUP_WIN, this.onShowWinSignal);
     EventBus.I.on(AppSignal.SHOW_POPUP_LOSE, this.onShowLoseSignal);
     EventBus.I.on(AppSignal.HIDE_POPUPS, this.onHidePopupsSignal);
@@ -91,12 +197,27 @@ export default class GameEntry extends cc.Component {
     );
     EventBus.I.on(AppSignal.NO_MOVES_OK_CLICKED, this.onNoMovesOkSignal);
     EventBus.I.on(AppSignal.BOOSTER_BOMB_CLICKED, this.onBoosterBombSignal);
+    EventBus.I.on(AppSignal.UNDO_CLICKED, this.onUndoSignal);
+    EventBus.I.on(AppSignal.REDO_CLICKED, this.onRedoSignal);
+    EventBus.I.on(AppSignal.LEVEL_SELECTED, this.onLevelSelectedSignal);
 
-    this.controller.initNewGame();
+    this.startGame();
     this.syncBoosterStates();
 
     if (this.popupWin) this.popupWin.onOk = () => this.onPopupOkClicked();
     if (this.popupLose) this.popupLose.onOk = () => this.onPopupOkClicked();
+    if (this.popupDaily) this.popupDaily.onOk = () => this.onDailyPopupOk();
+  }
+
+  update(dt: number) {
+    if (!this.controller) return;
+
+    this.controller.update(dt);
+
+    // replayed booster toggles don't go through the signal handlers
+    if (this.controller.isReplaying()) {
+      this.syncBoosterStates();
+    }
   }
 
   onDestroy() {
@@ -110,12 +231,16 @@ export default class GameEntry extends cc.Component {
     );
     EventBus.I.off(AppSignal.NO_MOVES_OK_CLICKED, this.onNoMovesOkSignal);
     EventBus.I.off(AppSignal.BOOSTER_BOMB_CLICKED, this.onBoosterBombSignal);
+    EventBus.I.off(AppSignal.UNDO_CLICKED, this.onUndoSignal);
+    EventBus.I.off(AppSignal.REDO_CLICKED, this.onRedoSignal);
+    EventBus.I.off(AppSignal.LEVEL_SELECTED, this.onLevelSelectedSignal);
   }
 
   // === POPUPS ===
 
-  private showWin() {
+  private showWin(result?: LevelResult) {
     debugLog('GameEntry', 'showWin()');
+    if (result && this.showDailyResult(result)) return;
     if (!this.overlayRoot || !this.popupWin) return;
 
     this.overlayRoot.active = true;
@@ -123,11 +248,15 @@ export default class GameEntry extends cc.Component {
     if (this.popupLose) this.popupLose.hide();
     if (this.popupNoMoves) this.popupNoMoves.node.active = false;
 
-    this.popupWin.show('ПОБЕДА!');
+    const next = this.getNextLevel();
+    this.popupWin.onNext = next ? () => this.startLevel(next.id) : null;
+
+    this.showPopup(this.popupWin, 'ПОБЕДА!', result);
   }
 
-  private showLose() {
+  private showLose(result?: LevelResult) {
     debugLog('GameEntry', 'showLose()');
+    if (result && this.showDailyResult(result)) return;
     if (!this.overlayRoot || !this.popupLose) return;
 
     this.overlayRoot.active = true;
@@ -135,7 +264,28 @@ export default class GameEntry extends cc.Component {
     if (this.popupWin) this.popupWin.hide();
     if (this.popupNoMoves) this.popupNoMoves.node.active = false;
 
-    this.popupLose.show('ПРОИГРЫШ');
+    // an endless run always ends this way, its best result is shown instead
+    if (result && result.mode === 'endless') {
+      const best = getLevelRecord(this.progress, this.controller.getLevel().id);
+      this.showPopup(this.popupLose, 'ЗАБЕГ ОКОНЧЕН', result, best);
+      return;
+    }
+
+    this.showPopup(this.popupLose, 'ПРОИГРЫШ', result);
+  }
+
+  /** Results popups get the level summary, simple ones just the title. */
+  private showPopup(
+    popup: PopupSimple,
+    title: string,
+    result?: LevelResult,
+    best: LevelRecord | null = null
+  ) {
+    if (result && popup instanceof PopupResults) {
+      popup.showResult(title, result, best);
+    } else {
+      popup.show(title);
+    }
   }
 
   private hideAllPopups() {
@@ -144,6 +294,213 @@ export default class GameEntry extends cc.Component {
     if (this.popupWin) this.popupWin.node.active = false;
     if (this.popupLose) this.popupLose.node.active = false;
     if (this.popupNoMoves) this.popupNoMoves.node.active = false;
+    if (this.popupDaily) this.popupDaily.node.active = false;
+  }
+
+  // === LEVEL MAP ===
+
+  /**
+   * Start (or resume, if it has a save) the level with this id.
+   * Unknown ids are ignored.
+   */
+  public startLevel(levelId: string) {
+    if (!this.controller) return;
+
+    const level = this.findLevel(levelId);
+    if (!level) {
+      cc.warn(`[GameEntry] unknown level "${levelId}"`);
+      return;
+    }
+
+    this.playLevel(level);
+  }
+
+  /** Hide the map and popups, then resume the level's save or start it anew. */
+  private playLevel(level: LevelDefinition) {
+    this.hideAllPopups();
+    if (this.levelMap) this.levelMap.hide();
+
+    const save = this.readSave();
+    if (save && isSaveForLevel(save, level)) {
+      this.controller.resumeGame(save, level);
+    } else {
+      this.controller.initNewGame(level);
+    }
+    this.syncBoosterStates();
+  }
+
+  /** Button handler (hooked up in the editor): open the level map. */
+  public onLevelMapButtonClicked() {
+    if (!this.levelMap || this.controller.isReplaying()) return;
+
+    this.hideAllPopups();
+    this.showLevelMap();
+  }
+
+  private showLevelMap() {
+    if (!this.levelMap) return;
+
+    const ids = this.levelList.map((l) => l.id);
+    const entries: LevelMapEntry[] = ids.map((levelId, i) => {
+      const record = getLevelRecord(this.progress, levelId);
+      return {
+        levelId,
+        number: i + 1,
+        unlocked: isLevelUnlocked(this.progress, ids, i),
+        stars: record ? record.stars : 0,
+        bestScore: record ? record.bestScore : 0,
+      };
+    });
+
+    this.levelMap.show(entries);
+  }
+
+  /** Next level in the list if it is unlocked, null after the last one. */
+  private getNextLevel(): LevelDefinition | null {
+    const ids = this.levelList.map((l) => l.id);
+    const index = ids.indexOf(this.controller.getLevel().id);
+
+    if (index < 0 || index + 1 >= ids.length) return null;
+    if (!isLevelUnlocked(this.progress, ids, index + 1)) return null;
+    return this.levelList[index + 1];
+  }
+
+  /**
+   * Keep best score / moves / stars of the finished level.
+   * Replays and hot-seat matches don't count.
+   */
+  private recordResult(result: LevelResult) {
+    if (this.controller.isReplaying()) return;
+    if (this.controller.getLevel().players > 1) return;
+
+    const levelId = this.controller.getLevel().id;
+    if (isDailyLevel(levelId)) {
+      this.recordDailyResult(getDailyDate(levelId), result);
+      return;
+    }
+
+    if (recordLevelResult(this.progress, levelId, result)) {
+      cc.sys.localStorage.setItem(
+        PROGRESS_STORAGE_KEY,
+        serializeProgress(this.progress)
+      );
+    }
+  }
+
+  // === DAILY CHALLENGE ===
+
+  /**
+   * Button handler (hooked up in the editor): play today's challenge,
+   * or show its summary if today's attempt was already counted.
+   */
+  public onDailyButtonClicked() {
+    if (!this.controller || this.controller.isReplaying()) return;
+
+    const today = getDateKey(new Date());
+    const counted = getDailyResult(this.dailyProgress, today);
+
+    if (counted && this.popupDaily) {
+      this.hideAllPopups();
+      this.showDailyPopup(null, counted);
+      return;
+    }
+
+    this.playLevel(createDailyLevel(this.getDailyBase(), today));
+  }
+
+  private getDailyBase(): LevelDefinition {
+    if (this.dailyAsset) {
+      try {
+        return parseLevelDefinition(this.dailyAsset.json, this.dailyAsset.name);
+      } catch (e) {
+        cc.error(`[GameEntry] ${e.message}`);
+      }
+    }
+    return this.levelList[0];
+  }
+
+  /** Only the first finished attempt of a date is counted. */
+  private recordDailyResult(date: string, result: LevelResult) {
+    if (recordDailyResult(this.dailyProgress, date, result)) {
+      cc.sys.localStorage.setItem(
+        DAILY_STORAGE_KEY,
+        serializeDailyProgress(this.dailyProgress)
+      );
+    }
+  }
+
+  /** Daily levels end in PopupDaily (if assigned). Returns true if it was shown. */
+  private showDailyResult(result: LevelResult): boolean {
+    const levelId = this.controller.getLevel().id;
+    if (!this.popupDaily || !isDailyLevel(levelId)) return false;
+
+    const counted = getDailyResult(this.dailyProgress, getDailyDate(levelId));
+    if (!counted) return false;
+
+    if (this.popupNoMoves) this.popupNoMoves.node.active = false;
+    this.showDailyPopup(result, counted);
+    return true;
+  }
+
+  /** Summary and streak always describe the counted attempt of the day. */
+  private showDailyPopup(result: LevelResult | null, counted: DailyResult) {
+    if (!this.overlayRoot || !this.popupDaily) return;
+
+    const streak = getCurrentStreak(this.dailyProgress, getDateKey(new Date()));
+    // a replayed attempt gets its own title, the summary stays the counted one
+    const won = result ? result.won : counted.won;
+    const title = won ? 'ИСПЫТАНИЕ ПРОЙДЕНО' : 'ИСПЫТАНИЕ НЕ ПРОЙДЕНО';
+
+    this.overlayRoot.active = true;
+    this.popupDaily.showDaily(
+      title,
+      result,
+      formatDailySummary(counted, streak),
+      streak
+    );
+  }
+
+  /** After a finished daily: back to the map (or replay it, not counted). */
+  private onDailyPopupOk() {
+    this.hideAllPopups();
+
+    const session = this.controller.getSession();
+    if (!session || !session.isOver()) return;
+
+    if (this.levelMap && this.levels.length > 0) {
+      this.showLevelMap();
+    } else {
+      this.onPopupOkClicked();
+    }
+  }
+
+  // === HOT-SEAT ===
+
+  /**
+   * Button handler (hooked up in the editor): play the current level again
+   * as a two-player hot-seat match, or alone again if it already is one.
+   */
+  public onHotSeatButtonClicked() {
+    if (!this.controller || this.controller.isReplaying()) return;
+
+    const level = this.controller.getLevel();
+    if (isHotSeatLevel(level.id)) {
+      this.playLevel(this.resolveLevel(getHotSeatBaseId(level.id)));
+      return;
+    }
+
+    if (!canPlayHotSeat(level)) {
+      debugLog('GameEntry', `level ${level.id} can't be played hot-seat`);
+      return;
+    }
+    this.playLevel(createHotSeatLevel(level));
+  }
+
+  private findLevel(levelId: string): LevelDefinition | null {
+    for (const level of this.levelList) {
+      if (level.id === levelId) return level;
+    }
+    return null;
   }
 
   // === EVENTBUS HANDLERS ===
@@ -151,23 +508,24 @@ export default class GameEntry extends cc.Component {
   private onShowWinSignal = () => this.showWin();
   private onShowLoseSignal = () => this.showLose();
   private onHidePopupsSignal = () => this.hideAllPopups();
+  private onLevelSelectedSignal = (levelId: string) => this.startLevel(levelId);
 
   private onTileClickedSignal = (payload: TileClickPayload) => {
-    if (!this.controller) return;
+    if (!this.controller || this.controller.isReplaying()) return;
 
     this.controller.onTileClick(payload);
     this.syncBoosterStates();
   };
 
   private onBoosterTeleportSignal = () => {
-    if (!this.controller) return;
+    if (!this.controller || this.controller.isReplaying()) return;
 
     this.controller.onBoosterTeleportClick();
     this.syncBoosterStates();
   };
 
   private onBoosterBombSignal = () => {
-    if (!this.controller) return;
+    if (!this.controller || this.controller.isReplaying()) return;
 
     this.controller.onBoosterBombClick();
     this.syncBoosterStates();
@@ -187,6 +545,25 @@ export default class GameEntry extends cc.Component {
     this.syncBoosterStates();
   };
 
+  private onUndoSignal = () => {
+    if (!this.controller || this.controller.isReplaying()) return;
+    if (!this.controller.canUndo()) return;
+
+    // undo may take back a "no moves" situation
+    this.hideAllPopups();
+    this.controller.onUndoClick();
+    this.syncBoosterStates();
+  };
+
+  private onRedoSignal = () => {
+    if (!this.controller || this.controller.isReplaying()) return;
+    if (!this.controller.canRedo()) return;
+
+    this.hideAllPopups();
+    this.controller.onRedoClick();
+    this.syncBoosterStates();
+  };
+
   /** "OK" button click in win/lose popup. */
   public onPopupOkClicked() {
     this.hideAllPopups();
@@ -199,6 +576,133 @@ export default class GameEntry extends cc.Component {
 
   // === HELPERS ===
 
+  /**
+   * Resume the saved level if there is one, otherwise open the level map
+   * (or start the only level when there is no map).
+   * If `replayText` is set, the replay is played instead.
+   */
+  private startGame() {
+    this.levelList = this.loadLevels();
+    this.progress = parseProgress(
+      cc.sys.localStorage.getItem(PROGRESS_STORAGE_KEY)
+    );
+    this.dailyProgress = parseDailyProgress(
+      cc.sys.localStorage.getItem(DAILY_STORAGE_KEY)
+    );
+
+    if (this.replayText) {
+      this.startReplay();
+      return;
+    }
+
+    const save = this.readSave();
+    const saved = save ? this.findSavedLevel(save) : null;
+
+    if (save && saved) {
+      this.controller.resumeGame(save, saved);
+    } else if (this.levelMap && this.levels.length > 0) {
+      // the board behind the map shows the first level
+      this.controller.initNewGame(this.levelList[0]);
+      this.showLevelMap();
+    } else {
+      this.controller.initNewGame(this.levelList[0]);
+    }
+  }
+
+  /**
+   * Level of the save: one of the list or today's challenge (alone or
+   * hot-seat), null if none fits.
+   */
+  private findSavedLevel(save: SaveData): LevelDefinition | null {
+    const levels = this.levelList.concat([
+      createDailyLevel(this.getDailyBase(), getDateKey(new Date())),
+    ]);
+    const candidates = levels.concat(
+      levels.filter(canPlayHotSeat).map(createHotSeatLevel)
+    );
+    return candidates.filter((level) => isSaveForLevel(save, level))[0] || null;
+  }
+
+  /**
+   * Level of a replayed id: a list level (the first one if it's unknown),
+   * a daily challenge or a hot-seat match on one of them.
+   */
+  private resolveLevel(levelId: string): LevelDefinition {
+    if (isHotSeatLevel(levelId)) {
+      return createHotSeatLevel(this.resolveLevel(getHotSeatBaseId(levelId)));
+    }
+    if (isDailyLevel(levelId)) {
+      return createDailyLevel(this.getDailyBase(), getDailyDate(levelId));
+    }
+    return this.findLevel(levelId) || this.levelList[0];
+  }
+
+  /** Play `replayText` on its level (or the first one if it's unknown). */
+  private startReplay() {
+    let replay;
+    try {
+      replay = decodeReplay(this.replayText);
+    } catch (e) {
+      cc.error(`[GameEntry] ${e.message}`);
+      this.controller.initNewGame(this.levelList[0]);
+      return;
+    }
+
+    this.controller.playReplay(replay, this.resolveLevel(replay.levelId));
+  }
+
+  /** Parsed `levels`; broken ones are skipped. Falls back to `levelAsset`. */
+  private loadLevels(): LevelDefinition[] {
+    const result: LevelDefinition[] = [];
+
+    for (const asset of this.levels) {
+      if (!asset) continue;
+      try {
+        result.push(parseLevelDefinition(asset.json, asset.name));
+      } catch (e) {
+        cc.error(`[GameEntry] ${e.message}`);
+      }
+    }
+
+    return result.length > 0 ? result : [this.loadLevel()];
+  }
+
+  /** Parse assigned level asset, falling back to the default level on errors. */
+  private loadLevel(): LevelDefinition {
+    if (!this.levelAsset) {
+      return createDefaultLevel();
+    }
+
+    try {
+      return parseLevelDefinition(this.levelAsset.json, this.levelAsset.name);
+    } catch (e) {
+      cc.error(`[GameEntry] ${e.message}`);
+      return createDefaultLevel();
+    }
+  }
+
+  /** Saved in-progress game, or null (broken saves are dropped). */
+  private readSave(): SaveData | null {
+    const text = cc.sys.localStorage.getItem(SAVE_STORAGE_KEY);
+    if (!text) return null;
+
+    try {
+      return parseSave(text);
+    } catch (e) {
+      cc.warn(`[GameEntry] ${e.message}`);
+      cc.sys.localStorage.removeItem(SAVE_STORAGE_KEY);
+    }
+    return null;
+  }
+
+  private writeSave(save: SaveData | null) {
+    if (save) {
+      cc.sys.localStorage.setItem(SAVE_STORAGE_KEY, serializeSave(save));
+    } else {
+      cc.sys.localStorage.removeItem(SAVE_STORAGE_KEY);
+    }
+  }
+
   private syncBoosterStates() {
     if (!this.controller) return;
 
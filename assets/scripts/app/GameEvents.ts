@@ -0,0 +1,129 @@
+// assets/scripts/app/GameEvents.ts
+
+import { GravityDirection, TilePos, TileSpecial } from '../shared/types';
+import {
+  GravityMovement,
+  ObstacleChanges,
+  RefillInfo,
+} from '../domain/BoardModel';
+import { GameStateData } from './GameState';
+import { ChainTrigger } from './controllers/ChainReactionController';
+
+/**
+ * Events produced by GameSession, in the order they happened.
+ * The view layer plays them as animations, headless runs can ignore them.
+ */
+export type GameEvent =
+  | TileSelectedEvent
+  | SpecialCreatedEvent
+  | TilesRemovedEvent
+  | TilesMovedEvent
+  | TilesSpawnedEvent
+  | DropItemsCollectedEvent
+  | TilesSwappedEvent
+  | BoardShuffledEvent
+  | BoardResetEvent
+  | ScoreChangedEvent
+  | LevelBonusEvent
+  | BoostersChangedEvent
+  | BoosterFailedEvent
+  | NoMovesEvent
+  | GameOverEvent;
+
+/** Teleport selection changed. */
+export interface TileSelectedEvent {
+  type: 'tileSelected';
+  pos: TilePos;
+  selected: boolean;
+}
+
+/** A group collapsed into a special tile at `pos` (removal follows). */
+export interface SpecialCreatedEvent {
+  type: 'specialCreated';
+  pos: TilePos;
+  special: TileSpecial;
+}
+
+/** Cells removed at once (a group or one chain reaction wave). */
+export interface TilesRemovedEvent {
+  type: 'tilesRemoved';
+  cells: TilePos[];
+  /** Specials (or bomb booster) that caused the removal, empty for groups. */
+  triggers: ChainTrigger[];
+  obstacles: ObstacleChanges;
+}
+
+/** Gravity applied; always followed by `tilesSpawned` of the same turn. */
+export interface TilesMovedEvent {
+  type: 'tilesMoved';
+  movements: GravityMovement[];
+  gravity: GravityDirection;
+}
+
+export interface TilesSpawnedEvent {
+  type: 'tilesSpawned';
+  refills: RefillInfo[];
+  gravity: GravityDirection;
+}
+
+/** Drop items reached the bottom edge and left the board. */
+export interface DropItemsCollectedEvent {
+  type: 'dropItemsCollected';
+  cells: TilePos[];
+}
+
+/** Teleport booster swapped two neighbor tiles. */
+export interface TilesSwappedEvent {
+  type: 'tilesSwapped';
+  from: TilePos;
+  to: TilePos;
+}
+
+/** No-moves reshuffle permuted existing tiles. */
+export interface BoardShuffledEvent {
+  type: 'boardShuffled';
+  moves: GravityMovement[];
+}
+
+/** Board was regenerated from scratch, redraw it completely. */
+export interface BoardResetEvent {
+  type: 'boardReset';
+}
+
+/** End of a scoring turn: `state` is a snapshot after the turn. */
+export interface ScoreChangedEvent {
+  type: 'scoreChanged';
+  gained: number;
+  state: GameStateData;
+}
+
+/** Level won: unused moves / boosters turned into score (before `gameOver`). */
+export interface LevelBonusEvent {
+  type: 'levelBonus';
+  moves: number;
+  boosters: number;
+  state: GameStateData;
+}
+
+export interface BoostersChangedEvent {
+  type: 'boostersChanged';
+  bombsLeft: number;
+  teleportsLeft: number;
+}
+
+/** Booster applied with no charges left in the state: the board is left as it was. */
+export interface BoosterFailedEvent {
+  type: 'boosterFailed';
+  booster: 'bomb' | 'teleport';
+}
+
+/** No moves on the board, but a reshuffle can still be used. */
+export interface NoMovesEvent {
+  type: 'noMoves';
+  reshufflesLeft: number;
+}
+
+export interface GameOverEvent {
+  type: 'gameOver';
+  reason: 'win' | 'lose';
+}
@@ -0,0 +1,750 @@
+// assets/scripts/app/GameSession.ts
+
+import { debugLog, isDebugEnabled } from '../debug/Debug';
+import { TileColor, TileGrid, TilePos, TileSpecial } from '../shared/types';
+import BoardModel, {
+  BoardSnapshot,
+  ObstacleChanges,
+} from '../domain/BoardModel';
+import SeededRandom, { createRandomSeed } from '../shared/Random';
+import GameState, { GameStateData } from './GameState';
+import { GameConfig } from './AppConfig';
+import { LevelDefinition } from './LevelDefinition';
+import { GameEvent } from './GameEvents';
+import { formatBoard } from '../domain/BoardNotation';
+import { createTurnProgress, TurnProgress } from './Objectives';
+import { getEndlessDifficulty } from './EndlessMode';
+import TeleportController, {
+  TeleportClickResult,
+} from './controllers/TeleportController';
+import BombController from './controllers/BombController';
+import MegaBombController from './controllers/MegaBombController';
+import RocketController from './controllers/RocketController';
+import ColorClearController from './controllers/ColorClearController';
+import ChainReactionController, {
+  ChainTrigger,
+} from './controllers/ChainReactionController';
+
+/** Common shape of mega bomb / color clear / rocket creation results. */
+interface SpecialCreationResult {
+  created: boolean;
+  removedCells: TilePos[];
+  obstacles?: ObstacleChanges;
+}
+
+/** Full position of a session: board + progress (for undo / redo). */
+export interface SessionSnapshot {
+  board: BoardSnapshot;
+  state: GameStateData;
+}
+
+/**
+ * Headless game session (one level attempt):
+ * - owns BoardModel, GameState and booster / special controllers
+ * - runs the whole turn pipeline synchronously
+ * - every command returns the GameEvents it produced, in order
+ * - does NOT depend on Cocos, so it runs in plain Node
+ */
+export default class GameSession {
+  readonly level: LevelDefinition;
+  /** Seed of the board + refill sequence. */
+  readonly seed: number;
+  readonly board: BoardModel;
+  readonly state: GameState;
+
+  private teleportController: TeleportController;
+  private bombController: BombController;
+  private megaBombController: MegaBombController;
+  private rocketController: RocketController;
+  private colorClearController: ColorClearController;
+  private chainController: ChainReactionController;
+
+  /** Events of the command being executed. */
+  private events: GameEvent[] = [];
+  /** Colors before the current command, to count removed tiles by color. */
+  private turnStartGrid: TileGrid = [];
+  private gameOverReported = false;
+  /** Endless mode: crate chance of refills at the current stage. */
+  private crateChance = 0;
+
+  /**
+   * Build the board for the level.
+   * The same seed always yields the same board and refill sequence.
+   */
+  constructor(level: LevelDefinition, seed: number = createRandomSeed()) {
+    this.level = level;
+    this.seed = seed;
+
+    this.state = new GameState(level);
+
+    this.board = new BoardModel(
+      level.rows,
+      level.cols,
+      level.colors,
+      new SeededRandom(seed),
+      {
+        mask: level.mask,
+        holeGravity: level.holeGravity,
+        gravity: level.gravity,
+        topology: level.topology,
+      }
+    );
+    this.applyDifficulty();
+
+    if (level.layout) {
+      this.board.fillFromLayout(level.layout);
+    } else {
+      this.board.randomFill();
+    }
+    if (level.obstacles) {
+      this.board.placeObstacles(level.obstacles);
+    }
+
+    this.teleportController = new TeleportController(this.board);
+    this.bombController = new BombController(this.board);
+    this.megaBombController = new MegaBombController(
+      this.board,
+      GameConfig.megaBombMinGroupSize
+    );
+    this.rocketController = new RocketController(
+      this.board,
+      GameConfig.rocketMinGroupSize,
+      GameConfig.colorClearMinGroupSize
+    );
+    this.colorClearController = new ColorClearController(
+      this.board,
+      GameConfig.colorClearMinGroupSize,
+      GameConfig.megaBombMinGroupSize
+    );
+    this.chainController = new ChainReactionController(
+      this.megaBombController,
+      this.rocketController,
+      this.colorClearController
+    );
+    this.chainController.setBoard(this.board);
+
+    // board dumps are only built when debug logging is on
+    if (isDebugEnabled()) {
+      debugLog(
+        'GameSession',
+        `new session: level=${level.id}, seed=${seed}, moves=${
+          this.state.data.movesLeft
+        }, target=${this.state.data.targetScore}\n${formatBoard(this.board)}`
+      );
+    }
+  }
+
+  // === COMMANDS ===
+
+  /** Initial check of the fresh board (it may already have no moves). */
+  public start(): GameEvent[] {
+    this.events = [];
+    this.checkMoves();
+    return this.flushEvents();
+  }
+
+  /**
+   * Tile click.
+   * Behavior depends on current mode: teleport, bomb, specials or normal group removal.
+   */
+  public clickTile(pos: TilePos): GameEvent[] {
+    this.events = [];
+    if (this.isOver()) return this.flushEvents();
+
+    const { row, col } = pos;
+    this.turnStartGrid = this.board.grid.map((r) => r.slice());
+
+    if (this.teleportController.isActive()) {
+      // 1) Teleport mode: delegate to TeleportController
+      this.handleTeleportResult(this.teleportController.handleClick(pos));
+    } else if (this.bombController.isActive()) {
+      // 2) Bomb mode: use BombController around clicked cell
+      this.handleBombClick(row, col);
+    } else if (this.megaBombController.isMegaBomb(row, col)) {
+      // 3) Clicked an existing mega bomb – blow up the whole board
+      this.handleMegaBombClick(row, col);
+    } else if (this.rocketController.isRocket(row, col)) {
+      // 4) Clicked a rocket – clear its row / column
+      this.handleRocketClick(row, col);
+    } else if (this.colorClearController.isColorClear(row, col)) {
+      // 5) Clicked a color clear – remove every tile of its color
+      this.handleColorClearClick(row, col);
+    } else {
+      // 6) Normal click on a colored group
+      this.handleGroupClick(row, col);
+    }
+
+    return this.flushEvents();
+  }
+
+  /** Booster button: toggle teleport mode. */
+  public toggleTeleport(): GameEvent[] {
+    this.events = [];
+
+    if (!this.state.canUseTeleport()) {
+      debugLog(
+        'GameSession',
+        'Booster TELEPORT clicked, but no teleports left'
+      );
+      return this.flushEvents();
+    }
+
+    // Teleport and bomb modes must not be active at the same time
+    this.bombController.reset();
+    this.clearTeleportSelection();
+
+    this.teleportController.toggle();
+    return this.flushEvents();
+  }
+
+  /** Booster button: toggle bomb mode. */
+  public toggleBomb(): GameEvent[] {
+    this.events = [];
+
+    if (!this.state.canUseBomb()) {
+      debugLog('GameSession', 'Booster BOMB clicked, but no bombs left');
+      return this.flushEvents();
+    }
+
+    // Bomb and teleport modes are mutually exclusive
+    this.clearTeleportSelection();
+    this.teleportController.reset();
+
+    this.bombController.toggle();
+    return this.flushEvents();
+  }
+
+  /**
+   * "No moves" confirmed: consume a reshuffle and shuffle the board.
+   * Existing tiles are permuted; specials and obstacles stay in place.
+   * Only if no playable permutation exists the board is regenerated randomly.
+   */
+  public reshuffle(): GameEvent[] {
+    this.events = [];
+    if (this.isOver()) return this.flushEvents();
+
+    if (!this.state.useReshuffle()) {
+      this.loseByNoMoves();
+      return this.flushEvents();
+    }
+
+    this.clearTeleportSelection();
+    this.teleportController.reset();
+    this.bombController.reset();
+
+    const result = this.board.shuffle(GameConfig.minGroupSize);
+
+    if (result.playable) {
+      this.events.push({ type: 'boardShuffled', moves: result.moves });
+    } else {
+      debugLog('GameSession', 'reshuffle: no playable permutation');
+      this.board.randomFill();
+      this.events.push({ type: 'boardReset' });
+    }
+
+    this.checkMoves();
+    return this.flushEvents();
+  }
+
+  /**
+   * Timed mode: run the clock for `dt` seconds.
+   * Returns the game over events once the time is up, otherwise nothing.
+   */
+  public tick(dt: number): GameEvent[] {
+    this.events = [];
+    if (this.isOver()) return this.flushEvents();
+
+    if (this.state.tick(dt)) {
+      this.finishByTime();
+    }
+    return this.flushEvents();
+  }
+
+  /** Timed mode: end the level as if the clock ran out (replays don't run it). */
+  public expireTime(): GameEvent[] {
+    this.events = [];
+    if (this.isOver() || !this.state.isTimed()) return this.flushEvents();
+
+    this.state.data.timeLeft = 0;
+    this.finishByTime();
+    return this.flushEvents();
+  }
+
+  /**
+   * Return to a saved position. Booster modes are reset.
+   * With `keepClock` the time left is not rolled back (undo / redo in timed mode).
+   * Returns events describing the restored position (e.g. no moves).
+   */
+  public restoreSnapshot(
+    snapshot: SessionSnapshot,
+    keepClock: boolean = false
+  ): GameEvent[] {
+    this.events = [];
+
+    const { timeLeft, freezeLeft } = this.state.data;
+
+    this.board.restoreSnapshot(snapshot.board);
+    this.state.restoreSnapshot(snapshot.state);
+    this.gameOverReported = this.isOver();
+    this.applyDifficulty();
+
+    if (keepClock && this.state.isTimed()) {
+      this.state.data.timeLeft = timeLeft;
+      this.state.data.freezeLeft = freezeLeft;
+      // taking back a move can't save a level whose time is up
+      this.state.updateGameOver();
+    }
+
+    this.teleportController.reset();
+    this.bombController.reset();
+
+    this.checkMoves();
+    return this.flushEvents();
+  }
+
+  // === QUERIES ===
+
+  public createSnapshot(): SessionSnapshot {
+    return {
+      board: this.board.createSnapshot(),
+      state: this.state.createSnapshot(),
+    };
+  }
+
+  public isOver(): boolean {
+    return this.state.data.gameOver;
+  }
+
+  public isTeleportActive(): boolean {
+    return this.teleportController.isActive();
+  }
+
+  public isBombActive(): boolean {
+    return this.bombController.isActive();
+  }
+
+  public getBombRadius(): number {
+    return this.bombController.getRadius();
+  }
+
+  // === TURNS ===
+
+  /** Normal tile click (no bomb, no teleport, no special tile). */
+  private handleGroupClick(row: number, col: number) {
+    const group = this.board.findGroup(row, col);
+    const size = group.length;
+
+    if (!this.state.canRemoveGroup(size)) {
+      return;
+    }
+
+    const gained = this.state.applyGroup(size);
+
+    if (!this.createSpecial(group, { row, col })) {
+      this.events.push({
+        type: 'tilesRemoved',
+        cells: group,
+        triggers: [],
+        obstacles: this.board.removeGroup(group),
+      });
+    }
+
+    this.endTurn(gained);
+  }
+
+  /**
+   * Big groups spawn a special at the clicked cell instead of simple removal:
+   * mega bomb > color clear > rocket.
+   * Returns false if the group is too small for any special.
+   */
+  private createSpecial(group: TilePos[], center: TilePos): boolean {
+    const size = group.length;
+
+    let result: SpecialCreationResult | null = null;
+    let special = TileSpecial.None;
+
+    if (this.megaBombController.canCreateFromSize(size)) {
+      result = this.megaBombController.createFromGroup(group, center);
+      special = TileSpecial.MegaBomb;
+    } else if (this.colorClearController.canCreateFromSize(size)) {
+      result = this.colorClearController.createFromGroup(group, center);
+      special = TileSpecial.ColorClear;
+    } else if (this.rocketController.canCreateFromSize(size)) {
+      const rocket = this.rocketController.createFromGroup(group, center);
+      result = rocket;
+      special = rocket.special || TileSpecial.None;
+    }
+
+    if (!result || !result.created) return false;
+
+    this.events.push({ type: 'specialCreated', pos: center, special });
+    this.events.push({
+      type: 'tilesRemoved',
+      cells: result.removedCells,
+      triggers: [],
+      obstacles: result.obstacles || { brokenCrates: [], iceHits: [] },
+    });
+    return true;
+  }
+
+  /** Click on regular bomb booster. */
+  private handleBombClick(row: number, col: number) {
+    const cells = this.bombController.handleClick(row, col);
+    if (cells.length === 0) {
+      debugLog('GameSession', 'Bomb click: no cells to remove');
+      return;
+    }
+
+    if (!this.state.useBomb()) {
+      debugLog('GameSession', 'Bomb click, but no bombs left in state');
+      this.events.push({ type: 'boosterFailed', booster: 'bomb' });
+      this.pushBoosters();
+      return;
+    }
+
+    this.detonate(cells, { pos: { row, col }, kind: 'bomb' }, true);
+  }
+
+  /** Click on mega bomb – removes all tiles on the board. */
+  private handleMegaBombClick(row: number, col: number) {
+    const res = this.megaBombController.getExplosionCells(row, col);
+    if (!res) return;
+
+    this.detonate(res.cells, { pos: { row, col }, kind: TileSpecial.MegaBomb });
+  }
+
+  /** Click on a rocket – removes its whole row or column. */
+  private handleRocketClick(row: number, col: number) {
+    const res = this.rocketController.getLineCells(row, col);
+    if (!res) return;
+
+    this.detonate(res.cells, {
+      pos: { row, col },
+      kind: res.horizontal ? TileSpecial.RocketH : TileSpecial.RocketV,
+    });
+  }
+
+  /** Click on a color clear – removes all tiles of one color. */
+  private handleColorClearClick(row: number, col: number) {
+    const res = this.colorClearController.getTargetCells(row, col);
+    if (!res) return;
+
+    this.detonate(res.cells, {
+      pos: { row, col },
+      kind: TileSpecial.ColorClear,
+    });
+  }
+
+  /**
+   * Remove cells as a chain reaction started by `origin`:
+   * specials caught in the blast fire their own effects in later waves.
+   * Scores the whole chain (no move is spent) and ends the turn.
+   */
+  private detonate(
+    cells: TilePos[],
+    origin: ChainTrigger,
+    boosterUsed: boolean = false
+  ) {
+    const chain = this.chainController.resolve(cells, origin);
+    const gained = this.state.applyChain(chain);
+
+    debugLog(
+      'GameSession',
+      `DETONATE ${origin.kind} at (${origin.pos.row},${origin.pos.col}), waves=${chain.waves.length}, tiles=${chain.totalRemoved}, chained=${chain.chainedSpecials}, gained=${gained}, score=${this.state.data.score}`
+    );
+
+    for (const wave of chain.waves) {
+      this.events.push({
+        type: 'tilesRemoved',
+        cells: wave.cells,
+        triggers: wave.triggers,
+        obstacles: wave.obstacles,
+      });
+    }
+
+    this.endTurn(gained, boosterUsed);
+  }
+
+  /** Handle teleport click result (selection / reselection / swap). */
+  private handleTeleportResult(result: TeleportClickResult | null) {
+    if (!result) return;
+
+    switch (result.type) {
+      case 'select':
+        this.events.push({
+          type: 'tileSelected',
+          pos: result.pos,
+          selected: true,
+        });
+        break;
+      case 'deselect':
+        this.events.push({
+          type: 'tileSelected',
+          pos: result.pos,
+          selected: false,
+        });
+        break;
+      case 'reselect':
+        this.events.push({
+          type: 'tileSelected',
+          pos: result.from,
+          selected: false,
+        });
+        this.events.push({
+          type: 'tileSelected',
+          pos: result.to,
+          selected: true,
+        });
+        break;
+      case 'swap': {
+        if (!this.state.useTeleport()) {
+          debugLog(
+            'GameSession',
+            'Teleport swap performed, but no teleports left in state'
+          );
+          this.board.swapTiles(result.from, result.to);
+          this.events.push({
+            type: 'tileSelected',
+            pos: result.from,
+            selected: false,
+          });
+          this.events.push({ type: 'boosterFailed', booster: 'teleport' });
+          this.pushBoosters();
+          break;
+        }
+
+        this.events.push({
+          type: 'tilesSwapped',
+          from: result.from,
+          to: result.to,
+        });
+        this.pushBoosters();
+
+        // a drop item teleported onto the bottom edge is collected right away;
+        // like any teleport it spends no move, so the turn stays with the player
+        if (this.board.findLandedDropItems().length > 0) {
+          this.endTurn(0, false, false);
+        } else {
+          this.checkMoves();
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Common end-of-turn pipeline after any board change (group removal, bomb, specials):
+   * gravity, drop items, refills, objectives, score, then check for next moves / game over.
+   * In a hot-seat match the turn then passes to the next player (unless `passTurn` is false).
+   */
+  private endTurn(
+    gained: number,
+    boosterUsed: boolean = false,
+    passTurn: boolean = true
+  ) {
+    const turn = this.collectRemovedTiles();
+
+    let movements = this.board.applyGravity();
+
+    // landed drop items leave the board, tiles above them fall again
+    let landed = this.board.findLandedDropItems();
+    while (landed.length > 0) {
+      this.events.push({
+        type: 'tilesMoved',
+        movements,
+        gravity: this.board.gravity,
+      });
+
+      this.board.removeDropItems(landed);
+      this.events.push({ type: 'dropItemsCollected', cells: landed });
+      turn.dropsCollected += landed.length;
+
+      movements = this.board.applyGravity();
+      landed = this.board.findLandedDropItems();
+    }
+
+    this.applyDifficulty();
+    const refills = this.board.refillEmptyCells(this.crateChance);
+
+    this.events.push({
+      type: 'tilesMoved',
+      movements,
+      gravity: this.board.gravity,
+    });
+    this.events.push({
+      type: 'tilesSpawned',
+      refills,
+      gravity: this.board.gravity,
+    });
+
+    turn.iceLeft = this.board.countIce();
+    this.state.applyTurnProgress(turn);
+    this.state.updateGameOver();
+
+    // the next player brings their own boosters
+    const passed = passTurn && !this.isOver() && this.state.switchPlayer();
+    if (passed) {
+      debugLog(
+        'GameSession',
+        `turn passes to player ${this.state.data.activePlayer + 1}`
+      );
+    }
+
+    this.events.push({
+      type: 'scoreChanged',
+      gained,
+      state: this.state.createSnapshot(),
+    });
+
+    if (boosterUsed || passed) {
+      this.pushBoosters();
+    }
+
+    if (isDebugEnabled()) {
+      debugLog('GameSession', `board after turn:\n${formatBoard(this.board)}`);
+    }
+
+    this.checkMoves();
+  }
+
+  /** Objective progress of the removals made so far in this command. */
+  private collectRemovedTiles(): TurnProgress {
+    const turn = createTurnProgress();
+
+    for (const event of this.events) {
+      if (event.type !== 'tilesRemoved') continue;
+
+      for (const { row, col } of event.cells) {
+        const color = this.turnStartGrid[row]
+          ? this.turnStartGrid[row][col]
+          : null;
+        if (!color) continue;
+
+        turn.clearedCells.push({ row, col });
+        if (color !== TileColor.MegaBomb) {
+          turn.collected[color] = (turn.collected[color] || 0) + 1;
+        }
+      }
+
+      turn.clearedCells.push(...event.obstacles.brokenCrates);
+    }
+
+    return turn;
+  }
+
+  /** Check if there are any valid moves left, report no-moves / game over. */
+  private checkMoves() {
+    if (!this.isOver() && !this.board.hasAnyMoves(GameConfig.minGroupSize)) {
+      if (this.state.canUseReshuffle()) {
+        this.events.push({
+          type: 'noMoves',
+          reshufflesLeft: this.state.data.reshufflesLeft,
+        });
+      } else {
+        this.loseByNoMoves();
+        return;
+      }
+    }
+
+    this.checkGameOver();
+  }
+
+  /** The clock ran out between turns: objectives decide win or lose. */
+  private finishByTime() {
+    debugLog('GameSession', 'time is up');
+
+    this.clearTeleportSelection();
+    this.teleportController.reset();
+    this.bombController.reset();
+
+    this.state.updateGameOver();
+    this.events.push({
+      type: 'scoreChanged',
+      gained: 0,
+      state: this.state.createSnapshot(),
+    });
+
+    this.checkGameOver();
+  }
+
+  /** Lose the level because there are no moves and no reshuffles left. */
+  private loseByNoMoves() {
+    if (!this.isOver()) {
+      this.state.data.gameOver = true;
+      this.state.data.gameOverReason = 'lose';
+    }
+    this.checkGameOver();
+  }
+
+  private checkGameOver() {
+    const { gameOver, gameOverReason } = this.state.data;
+    if (!gameOver || !gameOverReason || this.gameOverReported) return;
+
+    this.gameOverReported = true;
+
+    if (gameOverReason === 'win') {
+      const bonus = this.state.applyLevelEndBonus();
+      if (bonus.moves + bonus.boosters > 0) {
+        this.events.push({
+          type: 'levelBonus',
+          moves: bonus.moves,
+          boosters: bonus.boosters,
+          state: this.state.createSnapshot(),
+        });
+      }
+    }
+
+    debugLog('GameSession', `GAME OVER: ${gameOverReason}`);
+    this.events.push({ type: 'gameOver', reason: gameOverReason });
+  }
+
+  // === HELPERS ===
+
+  /** Endless mode: colors and crate chance of the stage reached by the moves made. */
+  private applyDifficulty() {
+    if (this.state.data.mode !== 'endless') return;
+
+    const colors = this.level.colors;
+    const difficulty = getEndlessDifficulty(
+      this.level.endless,
+      this.state.data.movesMade,
+      colors.length
+    );
+
+    if (difficulty.colorCount !== this.board.availableColors.length) {
+      debugLog(
+        'GameSession',
+        `endless stage ${difficulty.stage}: colors=${difficulty.colorCount}, crates=${difficulty.crateChance}`
+      );
+    }
+
+    this.board.availableColors = colors.slice(0, difficulty.colorCount);
+    this.crateChance = difficulty.crateChance;
+  }
+
+  private clearTeleportSelection() {
+    const selected = this.teleportController.getSelection();
+    if (selected) {
+      this.events.push({
+        type: 'tileSelected',
+        pos: selected,
+        selected: false,
+      });
+    }
+    this.teleportController.resetSelection();
+  }
+
+  private pushBoosters() {
+    this.events.push({
+      type: 'boostersChanged',
+      bombsLeft: this.state.data.bombsLeft,
+      teleportsLeft: this.state.data.teleportsLeft,
+    });
+  }
+
+  private flushEvents(): GameEvent[] {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+}
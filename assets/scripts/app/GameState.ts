@@ -1,39 +1,130 @@
 import { GameConfig } from './AppConfig';
+import { LevelDefinition } from './LevelDefinition';
+import RuleScoring, { LevelEndBonus, ScoringModel } from './Scoring';
+import { ChainResult } from './controllers/ChainReactionController';
+import {
+  createObjectiveProgress,
+  isObjectiveComplete,
+  ObjectiveProgress,
+  TurnProgress,
+} from './Objectives';
+import { GameMode, getGroupTimeBonus, TimerRules } from './TimedMode';
+import { createPlayers, PlayerData } from './HotSeat';
 
 export type GameOverReason = 'win' | 'lose' | null;
 
 export interface GameStateData {
+  /** Score of the level (hot-seat: of both players together). */
   score: number;
   movesLeft: number;
+  /** Group moves made so far (the distance of an endless run). */
+  movesMade: number;
   targetScore: number;
   gameOver: boolean;
   gameOverReason: GameOverReason;
 
   reshufflesLeft: number;
+  /** Hot-seat: charges of the active player. */
   bombsLeft: number;
   teleportsLeft: number;
+
+  /** Score by source (groups + specials + bombs + bonuses = score). */
+  groupsScore: number;
+  specialsScore: number;
+  bombsScore: number;
+  /** Win bonuses for unused moves / boosters (already included in score). */
+  movesBonus: number;
+  boostersBonus: number;
+
+  /** Scores needed for 1, 2 and 3 stars. */
+  starThresholds: number[];
+
+  /** Level objectives, all completed = win. */
+  objectives: ObjectiveProgress[];
+  /** Cells cleared at least once (clearBoard objective only, else empty). */
+  clearedCells: boolean[][];
+
+  /** Moves (movesLeft), countdown (timeLeft) or nothing (endless) limit the level. */
+  mode: GameMode;
+  /** Seconds left on the clock (timed mode only, else 0). */
+  timeLeft: number;
+  /** Seconds the clock stays stopped after a booster. */
+  freezeLeft: number;
+
+  /**
+   * Hot-seat: score and boosters of every player, empty for a single player.
+   * Booster charges of the active player are kept up to date in
+   * bombsLeft / teleportsLeft and stored here when the turn passes.
+   */
+  players: PlayerData[];
+  /** Index of the player whose turn it is (0 for a single player). */
+  activePlayer: number;
 }
 
 /**
  * Pure game state container:
- * - tracks score, moves, boosters, reshuffles
- * - knows win/lose conditions
+ * - tracks score, moves (or the clock in timed mode), boosters, reshuffles
+ * - tracks level objectives and knows win/lose conditions
+ * - tracks the players of a hot-seat match and passes the turn between them
+ * - scores turns through a ScoringModel (level rules by default)
  * - does NOT touch view or board
  */
 export default class GameState {
   public data: GameStateData;
+  readonly scoring: ScoringModel;
+  readonly timer: TimerRules;
 
-  constructor() {
+  constructor(
+    level: LevelDefinition,
+    scoring: ScoringModel = new RuleScoring(level.scoring)
+  ) {
+    this.scoring = scoring;
+    this.timer = level.timer;
     this.data = {
       score: 0,
-      movesLeft: GameConfig.startMoves,
-      targetScore: GameConfig.targetScore,
+      movesLeft: level.moves,
+      movesMade: 0,
+      targetScore: level.targetScore,
       gameOver: false,
       gameOverReason: null,
-      reshufflesLeft: GameConfig.reshuffleLimit,
-      bombsLeft: GameConfig.startBombs,
-      teleportsLeft: GameConfig.startTeleports,
+      reshufflesLeft: level.reshuffleLimit,
+      bombsLeft: level.bombs,
+      teleportsLeft: level.teleports,
+      groupsScore: 0,
+      specialsScore: 0,
+      bombsScore: 0,
+      movesBonus: 0,
+      boostersBonus: 0,
+      starThresholds: level.starThresholds.slice(),
+      objectives: createObjectiveProgress(level.objectives),
+      clearedCells: [],
+      mode: level.mode,
+      timeLeft: level.mode === 'timed' ? level.timer.seconds : 0,
+      freezeLeft: 0,
+      players: createPlayers(level),
+      activePlayer: 0,
     };
+
+    for (const objective of this.data.objectives) {
+      // the target can be changed after parsing (e.g. by the simulator)
+      if (objective.type === 'score') objective.target = level.targetScore;
+
+      if (objective.type === 'clearBoard') {
+        for (let row = 0; row < level.rows; row++) {
+          this.data.clearedCells.push(new Array(level.cols).fill(false));
+        }
+      }
+    }
+  }
+
+  // === SNAPSHOTS (UNDO / REDO) ===
+
+  public createSnapshot(): GameStateData {
+    return copyData(this.data);
+  }
+
+  public restoreSnapshot(snapshot: GameStateData) {
+    this.data = copyData(snapshot);
   }
 
   // === GROUP MOVES ===
@@ -46,42 +137,151 @@ export default class GameState {
 
   /**
    * Apply a normal group removal:
-   * - spends 1 move
-   * - adds score for the removed tiles
+   * - spends 1 move (timed mode: adds bonus seconds for the group size instead,
+   *   endless mode: free)
+   * - adds score for the removed tiles (by the scoring size curve)
    * Returns the gained score for this move.
+   * Game over is decided by updateGameOver() once the turn is finished.
    */
   public applyGroup(size: number): number {
     if (!this.canRemoveGroup(size)) {
       return 0;
     }
 
-    const gained = size * GameConfig.baseScorePerTile;
-    this.data.score += gained;
-    this.data.movesLeft -= 1;
+    const gained = this.scoring.scoreGroup(size);
+    this.addScore(gained);
+    this.data.groupsScore += gained;
+    this.data.movesMade += 1;
 
-    this.updateGameOver();
+    if (this.isTimed()) {
+      this.data.timeLeft += getGroupTimeBonus(this.timer, size);
+    } else if (this.data.mode === 'moves') {
+      this.data.movesLeft -= 1;
+    }
 
     return gained;
   }
 
-  private updateGameOver() {
-    if (this.data.gameOver) return;
+  /**
+   * End of a turn: win when every objective is done, lose without moves / time.
+   * Endless runs are only ended by the session (no moves and no reshuffles).
+   */
+  public updateGameOver() {
+    if (this.data.gameOver || this.data.mode === 'endless') return;
 
-    // Win by reaching target score
-    if (this.data.score >= this.data.targetScore) {
+    this.syncScoreObjectives();
+
+    // Win by completing all objectives
+    if (this.data.objectives.every(isObjectiveComplete)) {
       this.data.gameOver = true;
       this.data.gameOverReason = 'win';
       return;
     }
 
-    // Lose when no moves left
-    if (this.data.movesLeft <= 0) {
+    // Lose when no moves (or no time) left
+    if (this.isTimed() ? this.data.timeLeft <= 0 : this.data.movesLeft <= 0) {
       this.data.gameOver = true;
       this.data.gameOverReason = 'lose';
       return;
     }
   }
 
+  // === LEVEL END BONUS ===
+
+  /**
+   * Convert moves and boosters left after a win into score.
+   * Applied once; the counters themselves stay as they are.
+   * Hot-seat matches get no bonus: it would go to whoever moved last.
+   */
+  public applyLevelEndBonus(): LevelEndBonus {
+    const none: LevelEndBonus = { moves: 0, boosters: 0 };
+    if (this.data.gameOverReason !== 'win' || this.isHotSeat()) return none;
+    if (this.data.movesBonus > 0 || this.data.boostersBonus > 0) return none;
+
+    // in timed mode every whole second left counts as a move
+    const bonus = this.scoring.scoreLevelEnd(
+      this.isTimed() ? Math.floor(this.data.timeLeft) : this.data.movesLeft,
+      this.data.bombsLeft,
+      this.data.teleportsLeft
+    );
+
+    this.data.movesBonus = bonus.moves;
+    this.data.boostersBonus = bonus.boosters;
+    this.data.score += bonus.moves + bonus.boosters;
+    this.syncScoreObjectives();
+
+    return bonus;
+  }
+
+  // === CLOCK (TIMED MODE) ===
+
+  public isTimed(): boolean {
+    return this.data.mode === 'timed';
+  }
+
+  /**
+   * Run the clock for `dt` seconds (a booster freeze is used up first).
+   * Returns true when the time has just run out; game over is then
+   * decided by updateGameOver().
+   */
+  public tick(dt: number): boolean {
+    if (!this.isTimed() || this.data.gameOver || this.data.timeLeft <= 0) {
+      return false;
+    }
+
+    const frozen = Math.min(this.data.freezeLeft, dt);
+    this.data.freezeLeft -= frozen;
+    this.data.timeLeft = Math.max(0, this.data.timeLeft - (dt - frozen));
+
+    return this.data.timeLeft <= 0;
+  }
+
+  /** Stop the clock for a while after a booster. */
+  private freezeClock() {
+    if (this.isTimed()) {
+      this.data.freezeLeft = Math.max(
+        this.data.freezeLeft,
+        this.timer.boosterFreeze
+      );
+    }
+  }
+
+  // === PLAYERS (HOT-SEAT) ===
+
+  public isHotSeat(): boolean {
+    return this.data.players.length > 1;
+  }
+
+  /**
+   * Pass the turn to the next player: the boosters of the active player
+   * are stored, the next player's ones become bombsLeft / teleportsLeft.
+   * Returns false (nothing to pass) for a single player.
+   */
+  public switchPlayer(): boolean {
+    if (!this.isHotSeat()) return false;
+
+    const players = this.data.players;
+    const current = players[this.data.activePlayer];
+    current.bombsLeft = this.data.bombsLeft;
+    current.teleportsLeft = this.data.teleportsLeft;
+
+    this.data.activePlayer = (this.data.activePlayer + 1) % players.length;
+
+    const next = players[this.data.activePlayer];
+    this.data.bombsLeft = next.bombsLeft;
+    this.data.teleportsLeft = next.teleportsLeft;
+
+    return true;
+  }
+
+  /** Level score and the active player's score (hot-seat). */
+  private addScore(points: number) {
+    this.data.score += points;
+    if (this.isHotSeat()) {
+      this.data.players[this.data.activePlayer].score += points;
+    }
+  }
+
   // === AUTO-RESHUFFLES (NO MOVES) ===
 
   public canUseReshuffle(): boolean {
@@ -109,25 +309,68 @@ export default class GameState {
   public useBomb(): boolean {
     if (!this.canUseBomb()) return false;
     this.data.bombsLeft -= 1;
+    this.freezeClock();
     return true;
   }
 
   /**
-   * Apply bomb explosion:
-   * - adds score for `count` removed tiles
+   * Apply a bomb / special explosion with its chain waves:
+   * - adds score for the removed tiles (special multipliers, chain bonuses)
    * - does NOT spend a move
    */
-  public applyBomb(count: number): number {
-    if (this.data.gameOver || count <= 0) return 0;
+  public applyChain(chain: ChainResult): number {
+    if (this.data.gameOver || chain.totalRemoved <= 0) return 0;
 
-    const gained = count * GameConfig.baseScorePerTile;
-    this.data.score += gained;
+    const gained = this.scoring.scoreChain(chain);
+    this.addScore(gained);
 
-    this.updateGameOver();
+    const origin = chain.waves[0].triggers[0];
+    if (origin && origin.kind === 'bomb') {
+      this.data.bombsScore += gained;
+    } else {
+      this.data.specialsScore += gained;
+    }
 
     return gained;
   }
 
+  // === OBJECTIVES ===
+
+  /** Count what the turn removed / collected towards the objectives. */
+  public applyTurnProgress(turn: TurnProgress) {
+    if (this.data.gameOver) return;
+
+    const cleared = this.data.clearedCells;
+    for (const { row, col } of turn.clearedCells) {
+      if (cleared[row]) cleared[row][col] = true;
+    }
+
+    for (const objective of this.data.objectives) {
+      switch (objective.type) {
+        case 'collect':
+          objective.current += turn.collected[objective.color!] || 0;
+          break;
+        case 'ice':
+          objective.current = objective.target - turn.iceLeft;
+          break;
+        case 'drop':
+          objective.current += turn.dropsCollected;
+          break;
+        case 'clearBoard':
+          objective.current = countTrue(cleared);
+          break;
+      }
+    }
+
+    this.syncScoreObjectives();
+  }
+
+  private syncScoreObjectives() {
+    for (const objective of this.data.objectives) {
+      if (objective.type === 'score') objective.current = this.data.score;
+    }
+  }
+
   // === TELEPORT BOOSTER ===
 
   public canUseTeleport(): boolean {
@@ -145,6 +388,28 @@ export default class GameState {
   public useTeleport(): boolean {
     if (!this.canUseTeleport()) return false;
     this.data.teleportsLeft -= 1;
+    this.freezeClock();
     return true;
   }
 }
+
+/** Deep copy (objectives, cleared cells and players are mutated in place). */
+function copyData(data: GameStateData): GameStateData {
+  return {
+    ...data,
+    starThresholds: data.starThresholds.slice(),
+    objectives: data.objectives.map((o) => ({ ...o })),
+    clearedCells: data.clearedCells.map((row) => row.slice()),
+    players: data.players.map((p) => ({ ...p })),
+  };
+}
+
+function countTrue(grid: boolean[][]): number {
+  let count = 0;
+  for (const row of grid) {
+    for (const value of row) {
+      if (value) count++;
+    }
+  }
+  return count;
+}
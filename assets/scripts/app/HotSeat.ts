@@ -0,0 +1,89 @@
+// assets/scripts/app/HotSeat.ts
+
+import { LevelDefinition } from './LevelDefinition';
+
+/** Players of a hot-seat match (pass-and-play on one device). */
+export const HOT_SEAT_PLAYERS = 2;
+
+/** Level ids of hot-seat matches end with this suffix. */
+const HOT_SEAT_SUFFIX = '@2p';
+
+/**
+ * What every player of a hot-seat match owns. The board, moves and
+ * objectives are shared: the players win or lose the level together,
+ * the higher score wins the match.
+ */
+export interface PlayerData {
+  score: number;
+  bombsLeft: number;
+  teleportsLeft: number;
+}
+
+/** Players of the level: one entry per player, empty for a single player. */
+export function createPlayers(level: LevelDefinition): PlayerData[] {
+  const players: PlayerData[] = [];
+  if (level.players <= 1) return players;
+
+  for (let i = 0; i < level.players; i++) {
+    players.push({
+      score: 0,
+      bombsLeft: level.bombs,
+      teleportsLeft: level.teleports,
+    });
+  }
+  return players;
+}
+
+/** Hot-seat match on the rules and board of `level`, with its own id. */
+export function createHotSeatLevel(level: LevelDefinition): LevelDefinition {
+  return {
+    ...level,
+    id: level.id + HOT_SEAT_SUFFIX,
+    players: HOT_SEAT_PLAYERS,
+  };
+}
+
+/** Single-player levels limited by moves can be shared (a clock can't be passed on). */
+export function canPlayHotSeat(level: LevelDefinition): boolean {
+  return level.players === 1 && level.mode === 'moves';
+}
+
+export function isHotSeatLevel(levelId: string): boolean {
+  const index = levelId.length - HOT_SEAT_SUFFIX.length;
+  return index > 0 && levelId.indexOf(HOT_SEAT_SUFFIX, index) === index;
+}
+
+/** Id of the level a hot-seat match is played on, e.g. "level_01@2p" → "level_01". */
+export function getHotSeatBaseId(levelId: string): string {
+  return levelId.substr(0, levelId.length - HOT_SEAT_SUFFIX.length);
+}
+
+/** Index of the player with the highest score, null on a draw. */
+export function getMatchWinner(scores: number[]): number | null {
+  let winner: number | null = null;
+  let best = -1;
+
+  scores.forEach((score, i) => {
+    if (score > best) {
+      best = score;
+      winner = i;
+    } else if (score === best) {
+      winner = null;
+    }
+  });
+  return winner;
+}
+
+/** Player name for the HUD and popups: "Игрок 1". */
+export function getPlayerName(index: number): string {
+  return `Игрок ${index + 1}`;
+}
+
+/** Match summary for the results popup: "Игрок 1: 420\nИгрок 2: 380\nПобедил Игрок 1". */
+export function formatMatchSummary(scores: number[]): string {
+  const winner = getMatchWinner(scores);
+  const lines = scores.map((score, i) => `${getPlayerName(i)}: ${score}`);
+
+  lines.push(winner === null ? 'Ничья' : `Победил ${getPlayerName(winner)}`);
+  return lines.join('\n');
+}
@@ -0,0 +1,776 @@
+import {
+  GravityDirection,
+  ObstaclePlacement,
+  TileColor,
+  TILE_COLORS,
+  TileGrid,
+} from '../shared/types';
+import { HoleGravityRule } from '../domain/BoardModel';
+import { GridTopology } from '../domain/GridTopology';
+import { BoardConfig, GameConfig } from './AppConfig';
+import { Objective, OBJECTIVE_TYPES } from './Objectives';
+import { createDefaultStarThresholds, STAR_COUNT } from './LevelResult';
+import {
+  createScoringRules,
+  DEFAULT_CURVE_FACTORS,
+  DEFAULT_SCORING_PRESET,
+  SCORE_CURVES,
+  SCORING_PRESETS,
+  ScoringRules,
+} from './Scoring';
+import {
+  createTimerRules,
+  GameMode,
+  GAME_MODES,
+  TimerRules,
+} from './TimedMode';
+import { createEndlessRules, EndlessRules } from './EndlessMode';
+import { HOT_SEAT_PLAYERS } from './HotSeat';
+import { MAX_BOARD_SIZE } from './Replay';
+
+/**
+ * Level description (board + rules) loaded from a JSON asset.
+ * Everything that used to come from the global configs per game.
+ */
+export interface LevelDefinition {
+  id: string;
+
+  rows: number;
+  cols: number;
+
+  /** Colors that may appear on the board. */
+  colors: TileColor[];
+
+  moves: number;
+  targetScore: number;
+
+  reshuffleLimit: number;
+  bombs: number;
+  teleports: number;
+
+  /** Optional fixed starting layout: layout[row][col] = TileColor (null in holes). */
+  layout?: TileGrid;
+
+  /**
+   * Optional fixed board + refill seed: every game (and restart) of the level
+   * is the same. Random per game if not set. Used by the daily challenge.
+   */
+  seed?: number;
+
+  /**
+   * Optional board shape: one string per row, `#` – hole, `.` – playable cell.
+   * Parsed into `mask[row][col]` (false for holes).
+   */
+  mask?: boolean[][];
+
+  /** How tiles fall past holes (see HoleGravityRule). */
+  holeGravity: HoleGravityRule;
+
+  /** Direction tiles fall in; refills enter from the opposite edge. */
+  gravity: GravityDirection;
+
+  /** Square (4 neighbors) or hex (6 neighbors) grid. */
+  topology: GridTopology;
+
+  /**
+   * Optional obstacles, written in JSON as one string per row:
+   * `.` – none, `S` – stone, `C` – crate, `D` – drop item,
+   * `1`..`9` – ice with that many hit points.
+   */
+  obstacles?: ObstaclePlacement[];
+
+  /**
+   * Win conditions, all must be completed (default: reach `targetScore`).
+   * In JSON: `{ "type": "collect", "color": "red", "count": 20 }`, `{ "type": "ice" }`,
+   * `{ "type": "drop" }` (`count` defaults to all placed items), `{ "type": "clearBoard" }`,
+   * `{ "type": "score" }`.
+   */
+  objectives: Objective[];
+
+  /**
+   * Scoring rules. In JSON either a preset name (`"combo"`) or an object
+   * with a preset and overridden fields (`{ "preset": "combo", "curve": "linear" }`).
+   */
+  scoring: ScoringRules;
+
+  /**
+   * Scores for 1, 2 and 3 stars, ascending (JSON field `stars`).
+   * Default: target score, x1.5, x2.
+   */
+  starThresholds: number[];
+
+  /** Move limit (default) or countdown. */
+  mode: GameMode;
+
+  /**
+   * Countdown of timed levels (JSON field `timer`, only with `"mode": "timed"`):
+   * `{ "seconds": 90, "bonusPerTile": 1, "boosterFreeze": 3 }`, missing fields
+   * come from GameConfig.
+   */
+  timer: TimerRules;
+
+  /**
+   * Difficulty curve of endless levels (JSON field `endless`, only with
+   * `"mode": "endless"`), e.g. `{ "startColors": 3, "movesPerStage": 15 }`.
+   * Endless levels have no objectives and no stars.
+   */
+  endless: EndlessRules;
+
+  /**
+   * Players taking turns on one device: 1 (default) or 2 (hot-seat,
+   * only with `"mode": "moves"`). Every player has their own score and boosters.
+   */
+  players: number;
+}
+
+const HOLE_GRAVITY_RULES: HoleGravityRule[] = ['pass', 'stop'];
+
+/** Level counters that must be whole numbers. */
+type LevelCountField =
+  | 'rows'
+  | 'cols'
+  | 'moves'
+  | 'targetScore'
+  | 'reshuffleLimit'
+  | 'bombs'
+  | 'teleports';
+
+const POSITIVE_FIELDS: LevelCountField[] = [
+  'rows',
+  'cols',
+  'moves',
+  'targetScore',
+];
+const NON_NEGATIVE_FIELDS: LevelCountField[] = [
+  'reshuffleLimit',
+  'bombs',
+  'teleports',
+];
+
+/** Numeric scoring fields (the curve and multipliers are checked apart). */
+type ScoringNumberField = Exclude<
+  keyof ScoringRules,
+  'curve' | 'specialMultipliers'
+>;
+
+const SCORING_NUMBER_FIELDS: ScoringNumberField[] = [
+  'baseScorePerTile',
+  'curveFactor',
+  'chainWaveBonus',
+  'chainedSpecialBonus',
+  'unusedMoveBonus',
+  'unusedBoosterBonus',
+];
+const TIMER_FIELDS: Array<keyof TimerRules> = [
+  'seconds',
+  'bonusPerTile',
+  'boosterFreeze',
+];
+const ENDLESS_FIELDS: Array<keyof EndlessRules> = [
+  'startColors',
+  'movesPerStage',
+  'crateChance',
+  'crateChancePerStage',
+  'maxCrateChance',
+];
+const GRAVITY_DIRECTIONS: GravityDirection[] = ['down', 'up', 'left', 'right'];
+const TOPOLOGIES: GridTopology[] = ['square', 'hex'];
+
+/** Thrown when a level file is malformed. Lists every problem found. */
+export class LevelValidationError extends Error {
+  readonly source: string;
+  readonly problems: string[];
+
+  constructor(source: string, problems: string[]) {
+    super(`Invalid level "${source}":\n- ${problems.join('\n- ')}`);
+    // keep instanceof working with ES5 target
+    Object.setPrototypeOf(this, LevelValidationError.prototype);
+
+    this.name = 'LevelValidationError';
+    this.source = source;
+    this.problems = problems;
+  }
+}
+
+/** Level built from the global BoardConfig / GameConfig (fallback). */
+export function createDefaultLevel(): LevelDefinition {
+  return {
+    id: 'default',
+    rows: BoardConfig.rows,
+    cols: BoardConfig.cols,
+    colors: TILE_COLORS.slice(),
+    moves: GameConfig.startMoves,
+    targetScore: GameConfig.targetScore,
+    reshuffleLimit: GameConfig.reshuffleLimit,
+    bombs: GameConfig.startBombs,
+    teleports: GameConfig.startTeleports,
+    holeGravity: 'pass',
+    gravity: 'down',
+    topology: 'square',
+    scoring: createScoringRules(DEFAULT_SCORING_PRESET)!,
+    objectives: [{ type: 'score', target: GameConfig.targetScore }],
+    starThresholds: createDefaultStarThresholds(GameConfig.targetScore),
+    mode: 'moves',
+    timer: createTimerRules(),
+    endless: createEndlessRules(),
+    players: 1,
+  };
+}
+
+// === PARSING / VALIDATION ===
+
+function isPositiveInt(value: any): boolean {
+  return typeof value === 'number' && value % 1 === 0 && value > 0;
+}
+
+function isNonNegativeInt(value: any): boolean {
+  return typeof value === 'number' && value % 1 === 0 && value >= 0;
+}
+
+/** Narrow a JSON key to one of the known fields. */
+function isField<K extends string>(fields: K[], key: string): key is K {
+  return fields.some((field) => field === key);
+}
+
+/**
+ * Parse raw JSON into a LevelDefinition.
+ * Optional fields fall back to the global configs.
+ * Throws LevelValidationError with all problems at once.
+ */
+export function parseLevelDefinition(
+  raw: any,
+  source: string = 'level'
+): LevelDefinition {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new LevelValidationError(source, ['root must be a JSON object']);
+  }
+
+  const defaults = createDefaultLevel();
+  const problems: string[] = [];
+
+  const pick = (key: string, fallback: any) =>
+    raw[key] === undefined ? fallback : raw[key];
+
+  const level: LevelDefinition = {
+    id: pick('id', source),
+    rows: pick('rows', defaults.rows),
+    cols: pick('cols', defaults.cols),
+    colors: pick('colors', defaults.colors),
+    moves: pick('moves', defaults.moves),
+    targetScore: pick('targetScore', defaults.targetScore),
+    reshuffleLimit: pick('reshuffleLimit', defaults.reshuffleLimit),
+    bombs: pick('bombs', defaults.bombs),
+    teleports: pick('teleports', defaults.teleports),
+    holeGravity: pick('holeGravity', defaults.holeGravity),
+    gravity: pick('gravity', defaults.gravity),
+    topology: pick('topology', defaults.topology),
+    scoring: defaults.scoring,
+    objectives: [],
+    starThresholds: [],
+    mode: pick('mode', defaults.mode),
+    timer: defaults.timer,
+    endless: defaults.endless,
+    players: pick('players', defaults.players),
+  };
+
+  if (typeof level.id !== 'string' || level.id.length === 0) {
+    problems.push('"id" must be a non-empty string');
+  }
+
+  for (const key of POSITIVE_FIELDS) {
+    if (!isPositiveInt(level[key])) {
+      problems.push(`"${key}" must be a positive integer`);
+    }
+  }
+
+  // every cell must fit into the replay notation
+  if (level.rows > MAX_BOARD_SIZE) {
+    problems.push(`"rows" must not exceed ${MAX_BOARD_SIZE}`);
+  }
+  if (level.cols > MAX_BOARD_SIZE) {
+    problems.push(`"cols" must not exceed ${MAX_BOARD_SIZE}`);
+  }
+
+  for (const key of NON_NEGATIVE_FIELDS) {
+    if (!isNonNegativeInt(level[key])) {
+      problems.push(`"${key}" must be a non-negative integer`);
+    }
+  }
+
+  if (!Array.isArray(level.colors) || level.colors.length === 0) {
+    problems.push('"colors" must be a non-empty array');
+  } else {
+    level.colors.forEach((color, i) => {
+      if (TILE_COLORS.indexOf(color) === -1) {
+        problems.push(
+          `"colors[${i}]" is "${color}", expected one of: ${TILE_COLORS.join(
+            ', '
+          )}`
+        );
+      }
+    });
+  }
+
+  if (HOLE_GRAVITY_RULES.indexOf(level.holeGravity) === -1) {
+    problems.push(
+      `"holeGravity" must be one of: ${HOLE_GRAVITY_RULES.join(', ')}`
+    );
+  }
+
+  if (GRAVITY_DIRECTIONS.indexOf(level.gravity) === -1) {
+    problems.push(`"gravity" must be one of: ${GRAVITY_DIRECTIONS.join(', ')}`);
+  }
+
+  if (TOPOLOGIES.indexOf(level.topology) === -1) {
+    problems.push(`"topology" must be one of: ${TOPOLOGIES.join(', ')}`);
+  }
+
+  // odd-q rows zigzag, so tiles can only fall along the straight columns
+  if (
+    level.topology === 'hex' &&
+    (level.gravity === 'left' || level.gravity === 'right')
+  ) {
+    problems.push(
+      `"gravity" is "${level.gravity}", hex boards only support "down" and "up"`
+    );
+  }
+
+  if (GAME_MODES.indexOf(level.mode) === -1) {
+    problems.push(`"mode" must be one of: ${GAME_MODES.join(', ')}`);
+  }
+
+  if (raw.timer !== undefined) {
+    if (level.mode !== 'timed') {
+      problems.push('"timer" is only used with "mode": "timed"');
+    }
+    level.timer = parseTimer(raw.timer, problems);
+  }
+
+  if (raw.endless !== undefined) {
+    if (level.mode !== 'endless') {
+      problems.push('"endless" is only used with "mode": "endless"');
+    }
+    level.endless = parseEndless(raw.endless, level, problems);
+  }
+
+  if (level.players !== 1 && level.players !== HOT_SEAT_PLAYERS) {
+    problems.push(`"players" must be 1 or ${HOT_SEAT_PLAYERS}`);
+  } else if (level.players > 1 && level.mode !== 'moves') {
+    problems.push('"players" above 1 is only used with "mode": "moves"');
+  }
+
+  if (raw.mask !== undefined) {
+    level.mask = parseMask(raw.mask, level, problems);
+  }
+
+  if (raw.obstacles !== undefined) {
+    level.obstacles = parseObstacles(raw.obstacles, level, problems);
+  }
+
+  if (raw.scoring !== undefined) {
+    level.scoring = parseScoring(raw.scoring, problems) || defaults.scoring;
+  }
+
+  if (level.mode === 'endless') {
+    // the run only ends when no moves are left, there is nothing to win
+    for (const key of ['objectives', 'stars']) {
+      if (raw[key] !== undefined) {
+        problems.push(`"${key}" is not used with "mode": "endless"`);
+      }
+    }
+  } else {
+    level.objectives =
+      raw.objectives === undefined
+        ? [{ type: 'score', target: level.targetScore }]
+        : parseObjectives(raw.objectives, level, problems);
+
+    level.starThresholds =
+      raw.stars === undefined
+        ? createDefaultStarThresholds(level.targetScore)
+        : parseStars(raw.stars, problems);
+  }
+
+  if (raw.seed !== undefined) {
+    if (!isNonNegativeInt(raw.seed)) {
+      problems.push('"seed" must be a non-negative integer');
+    }
+    level.seed = raw.seed;
+  }
+
+  if (raw.layout !== undefined) {
+    validateLayout(raw.layout, level, problems);
+    level.layout = raw.layout;
+  }
+
+  if (problems.length > 0) {
+    throw new LevelValidationError(source, problems);
+  }
+
+  return level;
+}
+
+function validateLayout(
+  layout: any,
+  level: LevelDefinition,
+  problems: string[]
+) {
+  if (!Array.isArray(layout) || layout.length !== level.rows) {
+    problems.push(`"layout" must be an array of ${level.rows} rows`);
+    return;
+  }
+
+  layout.forEach((row: any, r: number) => {
+    if (!Array.isArray(row) || row.length !== level.cols) {
+      problems.push(`"layout[${r}]" must be an array of ${level.cols} colors`);
+      return;
+    }
+
+    row.forEach((color: any, c: number) => {
+      const isHole = !!level.mask && level.mask[r] && !level.mask[r][c];
+      if (isHole) {
+        if (color !== null) {
+          problems.push(`"layout[${r}][${c}]" is a hole and must be null`);
+        }
+        return;
+      }
+
+      if (!Array.isArray(level.colors) || level.colors.indexOf(color) === -1) {
+        problems.push(
+          `"layout[${r}][${c}]" is "${color}", which is not in "colors"`
+        );
+      }
+    });
+  });
+}
+
+function parseMask(
+  mask: any,
+  level: LevelDefinition,
+  problems: string[]
+): boolean[][] | undefined {
+  if (!Array.isArray(mask) || mask.length !== level.rows) {
+    problems.push(`"mask" must be an array of ${level.rows} strings`);
+    return undefined;
+  }
+
+  const result: boolean[][] = [];
+  let playable = 0;
+
+  mask.forEach((line: any, r: number) => {
+    if (typeof line !== 'string' || line.length !== level.cols) {
+      problems.push(`"mask[${r}]" must be a string of ${level.cols} chars`);
+      return;
+    }
+
+    const row: boolean[] = [];
+    for (let c = 0; c < line.length; c++) {
+      const ch = line.charAt(c);
+      if (ch !== '.' && ch !== '#') {
+        problems.push(`"mask[${r}][${c}]" is "${ch}", expected "." or "#"`);
+      }
+      row.push(ch !== '#');
+      if (ch !== '#') playable++;
+    }
+    result.push(row);
+  });
+
+  if (result.length === level.rows && playable === 0) {
+    problems.push('"mask" must contain at least one playable cell');
+  }
+
+  return result;
+}
+
+function parseObstacles(
+  obstacles: any,
+  level: LevelDefinition,
+  problems: string[]
+): ObstaclePlacement[] {
+  const result: ObstaclePlacement[] = [];
+
+  if (!Array.isArray(obstacles) || obstacles.length !== level.rows) {
+    problems.push(`"obstacles" must be an array of ${level.rows} strings`);
+    return result;
+  }
+
+  obstacles.forEach((line: any, r: number) => {
+    if (typeof line !== 'string' || line.length !== level.cols) {
+      problems.push(
+        `"obstacles[${r}]" must be a string of ${level.cols} chars`
+      );
+      return;
+    }
+
+    for (let c = 0; c < line.length; c++) {
+      const ch = line.charAt(c);
+      if (ch === '.') continue;
+
+      if (level.mask && level.mask[r] && !level.mask[r][c]) {
+        problems.push(`"obstacles[${r}][${c}]" is placed in a hole`);
+        continue;
+      }
+
+      if (ch === 'S') {
+        result.push({ row: r, col: c, type: 'stone' });
+      } else if (ch === 'C') {
+        result.push({ row: r, col: c, type: 'crate' });
+      } else if (ch === 'D') {
+        result.push({ row: r, col: c, type: 'drop' });
+      } else if (ch >= '1' && ch <= '9') {
+        result.push({ row: r, col: c, type: 'ice', hp: Number(ch) });
+      } else {
+        problems.push(
+          `"obstacles[${r}][${c}]" is "${ch}", expected ".", "S", "C", "D" or 1-9`
+        );
+      }
+    }
+  });
+
+  return result;
+}
+
+function parseScoring(scoring: any, problems: string[]): ScoringRules | null {
+  const raw = typeof scoring === 'string' ? { preset: scoring } : scoring;
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    problems.push('"scoring" must be a preset name or an object');
+    return null;
+  }
+
+  const preset = raw.preset === undefined ? DEFAULT_SCORING_PRESET : raw.preset;
+  const rules = createScoringRules(preset);
+  if (!rules) {
+    problems.push(
+      `"scoring.preset" is "${preset}", expected one of: ${SCORING_PRESETS.join(
+        ', '
+      )}`
+    );
+    return null;
+  }
+
+  for (const key in raw) {
+    if (key === 'preset') continue;
+    const value = raw[key];
+
+    if (key === 'curve') {
+      if (SCORE_CURVES.indexOf(value) === -1) {
+        problems.push(
+          `"scoring.curve" must be one of: ${SCORE_CURVES.join(', ')}`
+        );
+      }
+      rules.curve = value;
+    } else if (key === 'specialMultipliers') {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        problems.push('"scoring.specialMultipliers" must be an object');
+        continue;
+      }
+      for (const kind in value) {
+        if (typeof value[kind] !== 'number' || value[kind] < 0) {
+          problems.push(
+            `"scoring.specialMultipliers.${kind}" must be a non-negative number`
+          );
+        }
+      }
+      // merge, so overriding one kind keeps the others
+      rules.specialMultipliers = { ...rules.specialMultipliers, ...value };
+    } else if (!isField(SCORING_NUMBER_FIELDS, key)) {
+      problems.push(`"scoring.${key}" is not a scoring field`);
+    } else {
+      if (typeof value !== 'number' || value < 0) {
+        problems.push(`"scoring.${key}" must be a non-negative number`);
+      }
+      rules[key] = value;
+    }
+  }
+
+  // the preset factor belongs to the preset curve
+  if (raw.curve !== undefined && raw.curveFactor === undefined) {
+    const factor = DEFAULT_CURVE_FACTORS[rules.curve];
+    if (typeof factor === 'number') rules.curveFactor = factor;
+  }
+
+  if (rules.curve === 'exponential' && rules.curveFactor < 1) {
+    problems.push(
+      '"scoring.curveFactor" must be at least 1 with the exponential curve'
+    );
+  }
+
+  return rules;
+}
+
+function parseTimer(timer: any, problems: string[]): TimerRules {
+  const rules = createTimerRules();
+  if (!timer || typeof timer !== 'object' || Array.isArray(timer)) {
+    problems.push('"timer" must be an object');
+    return rules;
+  }
+
+  for (const key in timer) {
+    const value = timer[key];
+
+    if (!isField(TIMER_FIELDS, key)) {
+      problems.push(`"timer.${key}" is not a timer field`);
+      continue;
+    }
+
+    const valid =
+      typeof value === 'number' && (key === 'seconds' ? value > 0 : value >= 0);
+    if (!valid) {
+      problems.push(
+        `"timer.${key}" must be a ${
+          key === 'seconds' ? 'positive' : 'non-negative'
+        } number`
+      );
+    }
+
+    rules[key] = value;
+  }
+
+  return rules;
+}
+
+function parseEndless(
+  endless: any,
+  level: LevelDefinition,
+  problems: string[]
+): EndlessRules {
+  const rules = createEndlessRules();
+  if (!endless || typeof endless !== 'object' || Array.isArray(endless)) {
+    problems.push('"endless" must be an object');
+    return rules;
+  }
+
+  for (const key in endless) {
+    const value = endless[key];
+
+    if (!isField(ENDLESS_FIELDS, key)) {
+      problems.push(`"endless.${key}" is not an endless field`);
+      continue;
+    }
+
+    if (key === 'startColors' || key === 'movesPerStage') {
+      if (!isPositiveInt(value)) {
+        problems.push(`"endless.${key}" must be a positive integer`);
+      }
+    } else if (typeof value !== 'number' || value < 0 || value > 1) {
+      problems.push(`"endless.${key}" must be a chance from 0 to 1`);
+    }
+
+    rules[key] = value;
+  }
+
+  if (Array.isArray(level.colors) && rules.startColors > level.colors.length) {
+    problems.push(
+      `"endless.startColors" must not exceed the ${level.colors.length} "colors"`
+    );
+  }
+
+  return rules;
+}
+
+/**
+ * Objectives with resolved targets: ice, drop items and cells to clear
+ * are counted from the level mask and obstacles.
+ */
+function parseObjectives(
+  objectives: any,
+  level: LevelDefinition,
+  problems: string[]
+): Objective[] {
+  const result: Objective[] = [];
+
+  if (!Array.isArray(objectives) || objectives.length === 0) {
+    problems.push('"objectives" must be a non-empty array');
+    return result;
+  }
+
+  const placed = (type: string) =>
+    (level.obstacles || []).filter((o) => o.type === type).length;
+
+  objectives.forEach((raw: any, i: number) => {
+    const where = `objectives[${i}]`;
+    const type = raw ? raw.type : undefined;
+
+    if (OBJECTIVE_TYPES.indexOf(type) === -1) {
+      problems.push(
+        `"${where}.type" must be one of: ${OBJECTIVE_TYPES.join(', ')}`
+      );
+      return;
+    }
+
+    switch (type) {
+      case 'score':
+        result.push({ type, target: level.targetScore });
+        break;
+      case 'collect':
+        if (
+          !Array.isArray(level.colors) ||
+          level.colors.indexOf(raw.color) === -1
+        ) {
+          problems.push(
+            `"${where}.color" is "${raw.color}", which is not in "colors"`
+          );
+        }
+        if (!isPositiveInt(raw.count)) {
+          problems.push(`"${where}.count" must be a positive integer`);
+        }
+        result.push({ type, target: raw.count, color: raw.color });
+        break;
+      case 'ice':
+        if (placed('ice') === 0) {
+          problems.push(`"${where}" needs ice in "obstacles"`);
+        }
+        result.push({ type, target: placed('ice') });
+        break;
+      case 'drop': {
+        const count = raw.count === undefined ? placed('drop') : raw.count;
+        if (!isPositiveInt(count) || count > placed('drop')) {
+          problems.push(
+            `"${where}.count" must be 1..${placed(
+              'drop'
+            )} (drop items "D" in "obstacles")`
+          );
+        }
+        result.push({ type, target: count });
+        break;
+      }
+      case 'clearBoard':
+        result.push({ type, target: countClearableCells(level) });
+        break;
+    }
+  });
+
+  return result;
+}
+
+/** Playable cells without stones (stones can never be cleared). */
+function countClearableCells(level: LevelDefinition): number {
+  let count = 0;
+  for (let r = 0; r < level.rows; r++) {
+    for (let c = 0; c < level.cols; c++) {
+      if (level.mask && level.mask[r] && !level.mask[r][c]) continue;
+      count++;
+    }
+  }
+
+  const stones = (level.obstacles || []).filter((o) => o.type === 'stone');
+  return count - stones.length;
+}
+
+function parseStars(stars: any, problems: string[]): number[] {
+  const valid =
+    Array.isArray(stars) &&
+    stars.length === STAR_COUNT &&
+    stars.every(
+      (score: any, i: number) =>
+        isPositiveInt(score) && (i === 0 || score > stars[i - 1])
+    );
+
+  if (!valid) {
+    problems.push(
+      `"stars" must be ${STAR_COUNT} ascending positive integers (scores)`
+    );
+    return [];
+  }
+
+  return stars.slice();
+}
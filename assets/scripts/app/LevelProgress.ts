@@ -0,0 +1,93 @@
+// assets/scripts/app/LevelProgress.ts
+
+import { LevelResult } from './LevelResult';
+
+/** cc.sys.localStorage key of the level map progress. */
+export const PROGRESS_STORAGE_KEY = 'match-blast.progress';
+
+/** Best result of one level. */
+export interface LevelRecord {
+  bestScore: number;
+  /** Most moves made in one attempt (the distance of endless runs). */
+  bestMoves: number;
+  stars: number;
+  completed: boolean;
+}
+
+/** Level map progress: records by level id. */
+export interface LevelProgress {
+  records: { [levelId: string]: LevelRecord };
+}
+
+export function createLevelProgress(): LevelProgress {
+  return { records: {} };
+}
+
+export function serializeProgress(progress: LevelProgress): string {
+  return JSON.stringify(progress);
+}
+
+/** Stored progress, or empty progress if the text is missing or broken. */
+export function parseProgress(text: string | null): LevelProgress {
+  if (!text) return createLevelProgress();
+
+  try {
+    const raw = JSON.parse(text);
+    if (raw && typeof raw.records === 'object' && raw.records) {
+      return { records: raw.records };
+    }
+  } catch (e) {
+    // fall through to empty progress
+  }
+  return createLevelProgress();
+}
+
+export function getLevelRecord(
+  progress: LevelProgress,
+  levelId: string
+): LevelRecord | null {
+  return progress.records[levelId] || null;
+}
+
+/** The first level is always open, every next one after winning the previous. */
+export function isLevelUnlocked(
+  progress: LevelProgress,
+  levelIds: string[],
+  index: number
+): boolean {
+  if (index <= 0) return true;
+
+  const previous = getLevelRecord(progress, levelIds[index - 1]);
+  return !!previous && previous.completed;
+}
+
+/**
+ * Merge a finished attempt into the progress (best score, moves and stars are kept).
+ * An endless run can't be won, finishing one completes the level.
+ * Returns true if the record changed.
+ */
+export function recordLevelResult(
+  progress: LevelProgress,
+  levelId: string,
+  result: LevelResult
+): boolean {
+  const old = getLevelRecord(progress, levelId);
+  const record: LevelRecord = {
+    bestScore: Math.max(old ? old.bestScore : 0, result.score),
+    // records saved before distances were kept have no bestMoves
+    bestMoves: Math.max(old ? old.bestMoves || 0 : 0, result.movesMade),
+    stars: Math.max(old ? old.stars : 0, result.stars),
+    completed:
+      (!!old && old.completed) || result.won || result.mode === 'endless',
+  };
+
+  const changed =
+    !old ||
+    old.bestScore !== record.bestScore ||
+    old.bestMoves !== record.bestMoves ||
+    old.stars !== record.stars ||
+    old.completed !== record.completed;
+
+  progress.records[levelId] = record;
+  return changed;
+}
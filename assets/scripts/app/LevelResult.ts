@@ -0,0 +1,82 @@
+// assets/scripts/app/LevelResult.ts
+
+import { GameStateData } from './GameState';
+import { GameMode } from './TimedMode';
+
+/** Stars a level can give. */
+export const STAR_COUNT = 3;
+
+/** Where the points of a level came from (see GameState score counters). */
+export type ScoreSource =
+  | 'groups'
+  | 'specials'
+  | 'bombs'
+  | 'movesBonus'
+  | 'boostersBonus';
+
+export interface ScoreLine {
+  source: ScoreSource;
+  points: number;
+}
+
+/** Summary of a finished level for the results popup. */
+export interface LevelResult {
+  mode: GameMode;
+  /** Always false for endless runs. */
+  won: boolean;
+  score: number;
+  /** 0 on lose, at least 1 on win. */
+  stars: number;
+  /** Non-zero score sources, in a fixed order. */
+  breakdown: ScoreLine[];
+  movesLeft: number;
+  /** Group moves made (the distance of an endless run). */
+  movesMade: number;
+  /** Seconds left in timed mode, null in moves mode. */
+  timeLeft: number | null;
+  bombsLeft: number;
+  teleportsLeft: number;
+  /** Hot-seat: score of every player (they add up to `score`), else empty. */
+  playerScores: number[];
+}
+
+/** Thresholds for levels that don't set `stars`: target, x1.5, x2. */
+export function createDefaultStarThresholds(targetScore: number): number[] {
+  return [
+    targetScore,
+    Math.round(targetScore * 1.5),
+    Math.round(targetScore * 2),
+  ];
+}
+
+/** Number of thresholds reached by `score`. */
+export function countStars(score: number, thresholds: number[]): number {
+  return thresholds.filter((t) => score >= t).length;
+}
+
+export function createLevelResult(data: GameStateData): LevelResult {
+  const won = data.gameOverReason === 'win';
+
+  const breakdown: ScoreLine[] = [
+    { source: 'groups', points: data.groupsScore },
+    { source: 'specials', points: data.specialsScore },
+    { source: 'bombs', points: data.bombsScore },
+    { source: 'movesBonus', points: data.movesBonus },
+    { source: 'boostersBonus', points: data.boostersBonus },
+  ];
+
+  return {
+    mode: data.mode,
+    won,
+    score: data.score,
+    // objectives can win a level below the first threshold
+    stars: won ? Math.max(1, countStars(data.score, data.starThresholds)) : 0,
+    breakdown: breakdown.filter((line) => line.points > 0),
+    movesLeft: data.movesLeft,
+    movesMade: data.movesMade,
+    timeLeft: data.mode === 'timed' ? data.timeLeft : null,
+    bombsLeft: data.bombsLeft,
+    teleportsLeft: data.teleportsLeft,
+    playerScores: data.players.map((p) => p.score),
+  };
+}
@@ -0,0 +1,74 @@
+// assets/scripts/app/Objectives.ts
+
+import { TileColor, TilePos } from '../shared/types';
+
+/**
+ * Level goals, all of them must be completed to win:
+ * - score: reach the level target score
+ * - collect: remove `target` tiles of `color`
+ * - ice: break the ice in every cell
+ * - drop: bring `target` drop items to the bottom edge
+ * - clearBoard: clear every cell of the board at least once
+ */
+export type ObjectiveType = 'score' | 'collect' | 'ice' | 'drop' | 'clearBoard';
+
+export const OBJECTIVE_TYPES: ObjectiveType[] = [
+  'score',
+  'collect',
+  'ice',
+  'drop',
+  'clearBoard',
+];
+
+/** Objective of a level with a resolved target. */
+export interface Objective {
+  type: ObjectiveType;
+  target: number;
+  /** collect only. */
+  color?: TileColor;
+}
+
+export interface ObjectiveProgress extends Objective {
+  current: number;
+}
+
+/** What one turn did to the board, collected by GameSession. */
+export interface TurnProgress {
+  /** Removed regular tiles by color. */
+  collected: { [color: string]: number };
+  /** Cells whose tile (or crate) was removed. */
+  clearedCells: TilePos[];
+  /** Iced cells left on the board after the turn. */
+  iceLeft: number;
+  /** Drop items that reached the bottom edge this turn. */
+  dropsCollected: number;
+}
+
+export function createTurnProgress(): TurnProgress {
+  return { collected: {}, clearedCells: [], iceLeft: 0, dropsCollected: 0 };
+}
+
+export function createObjectiveProgress(
+  objectives: Objective[]
+): ObjectiveProgress[] {
+  return objectives.map((o) => ({ ...o, current: 0 }));
+}
+
+export function isObjectiveComplete(objective: ObjectiveProgress): boolean {
+  return objective.current >= objective.target;
+}
+
+const OBJECTIVE_NAMES: { [type in ObjectiveType]: string } = {
+  score: 'score',
+  collect: 'tiles',
+  ice: 'ice',
+  drop: 'items',
+  clearBoard: 'board',
+};
+
+/** Short HUD text, e.g. "red 12/20" or "ice 3/10". */
+export function describeObjective(objective: ObjectiveProgress): string {
+  const current = Math.min(objective.current, objective.target);
+  const name = objective.color || OBJECTIVE_NAMES[objective.type];
+  return `${name} ${current}/${objective.target}`;
+}
@@ -0,0 +1,134 @@
+// assets/scripts/app/Replay.ts
+
+/** One player input, in the order it was made. */
+export type ReplayAction =
+  | { type: 'tile'; row: number; col: number }
+  | { type: 'bomb' }
+  | { type: 'teleport' }
+  | { type: 'noMovesOk' }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'timeUp' };
+
+/** Everything needed to reproduce a game: level, seed and inputs. */
+export interface Replay {
+  levelId: string;
+  seed: number;
+  actions: ReplayAction[];
+}
+
+/**
+ * Compact text format:
+ *   R1;<levelId>;<seed base36>;<actions>
+ * Actions are concatenated without separators:
+ * - tile click: two base36 digits (row, col), e.g. "3a" = row 3, col 10
+ * - B bomb toggle, T teleport toggle, N no-moves OK, U undo, R redo,
+ *   E time is up (timed levels; the clock itself is not recorded)
+ * Teleport swaps are recorded as the tile clicks that make them.
+ */
+const FORMAT_TAG = 'R1';
+
+/** Largest board side a replay can address (one base36 digit per coordinate). */
+export const MAX_BOARD_SIZE = 36;
+const MAX_COORD = MAX_BOARD_SIZE - 1;
+
+const ACTION_CODES: { [code: string]: ReplayAction['type'] } = {
+  B: 'bomb',
+  T: 'teleport',
+  N: 'noMovesOk',
+  U: 'undo',
+  R: 'redo',
+  E: 'timeUp',
+};
+
+/** Thrown when a replay string can't be decoded. */
+export class ReplayFormatError extends Error {
+  constructor(message: string) {
+    super(`Invalid replay: ${message}`);
+    // keep instanceof working with ES5 target
+    Object.setPrototypeOf(this, ReplayFormatError.prototype);
+
+    this.name = 'ReplayFormatError';
+  }
+}
+
+export function encodeReplay(replay: Replay): string {
+  let actions = '';
+
+  for (const action of replay.actions) {
+    if (action.type === 'tile') {
+      actions += encodeCoord(action.row) + encodeCoord(action.col);
+      continue;
+    }
+
+    for (const code in ACTION_CODES) {
+      if (ACTION_CODES[code] === action.type) {
+        actions += code;
+        break;
+      }
+    }
+  }
+
+  return [
+    FORMAT_TAG,
+    encodeURIComponent(replay.levelId),
+    (replay.seed >>> 0).toString(36),
+    actions,
+  ].join(';');
+}
+
+export function decodeReplay(text: string): Replay {
+  const parts = text.trim().split(';');
+  if (parts.length !== 4 || parts[0] !== FORMAT_TAG) {
+    throw new ReplayFormatError(`expected "${FORMAT_TAG};level;seed;actions"`);
+  }
+
+  let levelId: string;
+  try {
+    levelId = decodeURIComponent(parts[1]);
+  } catch (e) {
+    throw new ReplayFormatError(`bad level id "${parts[1]}"`);
+  }
+
+  const seed = parseInt(parts[2], 36);
+  if (isNaN(seed)) {
+    throw new ReplayFormatError(`bad seed "${parts[2]}"`);
+  }
+
+  const actions: ReplayAction[] = [];
+  const body = parts[3];
+
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+
+    const type = ACTION_CODES[ch];
+    if (type) {
+      actions.push({ type } as ReplayAction);
+      continue;
+    }
+
+    const row = decodeCoord(ch);
+    const col = decodeCoord(body[i + 1]);
+    if (row < 0 || col < 0) {
+      throw new ReplayFormatError(`bad action at ${i}: "${body.substr(i, 2)}"`);
+    }
+
+    actions.push({ type: 'tile', row, col });
+    i++;
+  }
+
+  return { levelId, seed: seed >>> 0, actions };
+}
+
+function encodeCoord(value: number): string {
+  if (value < 0 || value > MAX_COORD) {
+    throw new ReplayFormatError(`coordinate ${value} out of range`);
+  }
+  return value.toString(36);
+}
+
+/** Base36 digit (0-9, a-z) or -1. */
+function decodeCoord(ch: string | undefined): number {
+  if (!ch || !/^[0-9a-z]$/.test(ch)) return -1;
+  return parseInt(ch, 36);
+}
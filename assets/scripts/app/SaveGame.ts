@@ -0,0 +1,144 @@
+// assets/scripts/app/SaveGame.ts
+
+import { BoardSnapshot } from '../domain/BoardModel';
+import { GameStateData } from './GameState';
+import { LevelDefinition } from './LevelDefinition';
+import { createPlayers } from './HotSeat';
+import GameSession from './GameSession';
+import { encodeReplay, Replay } from './Replay';
+
+/** Bump when SaveData changes and register a migration from the old version. */
+export const SAVE_VERSION = 1;
+
+/** cc.sys.localStorage key of the in-progress level. */
+export const SAVE_STORAGE_KEY = 'match-blast.save';
+
+/** In-progress level, written at the end of every turn. */
+export interface SaveData {
+  version: number;
+  levelId: string;
+  seed: number;
+  board: BoardSnapshot;
+  state: GameStateData;
+  /** Encoded replay of the inputs so far (recording continues after resume). */
+  replay: string;
+}
+
+type SaveMigration = (raw: any) => any;
+
+/**
+ * Upgrades of raw save objects, keyed by the version they upgrade FROM
+ * (MIGRATIONS[1] turns a version 1 save into version 2).
+ */
+const MIGRATIONS: { [fromVersion: number]: SaveMigration } = {};
+
+/** Thrown when a stored save can't be read. */
+export class SaveFormatError extends Error {
+  constructor(message: string) {
+    super(`Invalid save: ${message}`);
+    // keep instanceof working with ES5 target
+    Object.setPrototypeOf(this, SaveFormatError.prototype);
+
+    this.name = 'SaveFormatError';
+  }
+}
+
+export function createSaveData(session: GameSession, replay: Replay): SaveData {
+  const snapshot = session.createSnapshot();
+
+  return {
+    version: SAVE_VERSION,
+    levelId: session.level.id,
+    seed: session.seed,
+    board: snapshot.board,
+    state: snapshot.state,
+    replay: encodeReplay(replay),
+  };
+}
+
+export function serializeSave(save: SaveData): string {
+  return JSON.stringify(save);
+}
+
+/** Parse a stored save, upgrading older versions to SAVE_VERSION. */
+export function parseSave(text: string): SaveData {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new SaveFormatError('not a JSON document');
+  }
+
+  if (!raw || typeof raw !== 'object' || typeof raw.version !== 'number') {
+    throw new SaveFormatError('missing version');
+  }
+  if (raw.version > SAVE_VERSION) {
+    throw new SaveFormatError(
+      `version ${raw.version} is newer than supported ${SAVE_VERSION}`
+    );
+  }
+
+  while (raw.version < SAVE_VERSION) {
+    const migrate = MIGRATIONS[raw.version];
+    if (!migrate) {
+      throw new SaveFormatError(`no migration from version ${raw.version}`);
+    }
+    raw = migrate(raw);
+  }
+
+  validateSave(raw);
+  return raw as SaveData;
+}
+
+/** Save belongs to this level, fits its board size and has its objectives, mode and players. */
+export function isSaveForLevel(
+  save: SaveData,
+  level: LevelDefinition
+): boolean {
+  const grid = save.board.grid;
+  const objectives = save.state.objectives;
+  return (
+    save.levelId === level.id &&
+    save.state.mode === level.mode &&
+    save.state.players.length === createPlayers(level).length &&
+    grid.length === level.rows &&
+    grid.every((row) => row.length === level.cols) &&
+    objectives.length === level.objectives.length &&
+    objectives.every((o, i) => o.type === level.objectives[i].type)
+  );
+}
+
+function validateSave(raw: any) {
+  const problems: string[] = [];
+
+  if (typeof raw.levelId !== 'string') problems.push('levelId');
+  if (typeof raw.seed !== 'number') problems.push('seed');
+  if (typeof raw.replay !== 'string') problems.push('replay');
+
+  const board = raw.board;
+  if (
+    !board ||
+    !Array.isArray(board.grid) ||
+    !Array.isArray(board.specialGrid) ||
+    !Array.isArray(board.iceGrid) ||
+    typeof board.randomState !== 'number'
+  ) {
+    problems.push('board');
+  }
+
+  const state = raw.state;
+  if (
+    !state ||
+    typeof state.score !== 'number' ||
+    typeof state.movesLeft !== 'number' ||
+    typeof state.mode !== 'string' ||
+    !Array.isArray(state.objectives) ||
+    !Array.isArray(state.players)
+  ) {
+    problems.push('state');
+  }
+
+  if (problems.length > 0) {
+    throw new SaveFormatError(`bad fields: ${problems.join(', ')}`);
+  }
+}
@@ -0,0 +1,185 @@
+// assets/scripts/app/Scoring.ts
+
+import { TileSpecial } from '../shared/types';
+import { GameConfig } from './AppConfig';
+import {
+  ChainResult,
+  ChainTriggerKind,
+} from './controllers/ChainReactionController';
+
+/** How the score of a group grows with its size. */
+export type ScoreCurve = 'linear' | 'quadratic' | 'exponential';
+
+export const SCORE_CURVES: ScoreCurve[] = [
+  'linear',
+  'quadratic',
+  'exponential',
+];
+
+/** Curve factor of a curve picked in a level without its own `curveFactor`. */
+export const DEFAULT_CURVE_FACTORS: { [curve: string]: number } = {
+  linear: 0,
+  quadratic: 5,
+  exponential: 1.2,
+};
+
+/** The exponential curve never multiplies a tile by more than this. */
+export const MAX_EXPONENTIAL_MULTIPLIER = 8;
+
+/** Scoring parameters of a level: a preset, optionally with overridden fields. */
+export interface ScoringRules {
+  curve: ScoreCurve;
+  baseScorePerTile: number;
+  /**
+   * Curve steepness, applied per tile above `GameConfig.minGroupSize`:
+   * - quadratic: extra points per tile (size 5, factor 5 → 5 * (10 + 5 * 3))
+   * - exponential: growth rate, at least 1 (1.2 → +20% per tile),
+   *   capped at MAX_EXPONENTIAL_MULTIPLIER
+   */
+  curveFactor: number;
+  /** Multiplier for tiles removed by the bomb booster / a special kind (default 1). */
+  specialMultipliers: { [kind: string]: number };
+  /** Extra multiplier per chain wave after the first (0.5 → wave 2 x1.5, wave 3 x2). */
+  chainWaveBonus: number;
+  /** Flat points for every special set off by another explosion. */
+  chainedSpecialBonus: number;
+  /** Win bonus per move left. */
+  unusedMoveBonus: number;
+  /** Win bonus per bomb / teleport left. */
+  unusedBoosterBonus: number;
+}
+
+/** Points added when the level is won. */
+export interface LevelEndBonus {
+  moves: number;
+  boosters: number;
+}
+
+/**
+ * Scoring strategy used by GameState.
+ * RuleScoring covers the presets; other models can be plugged in
+ * by passing them to GameState directly.
+ */
+export interface ScoringModel {
+  /** Normal group removal (spends a move). */
+  scoreGroup(size: number): number;
+  /** Bomb booster or special tile explosion with all its chain waves. */
+  scoreChain(chain: ChainResult): number;
+  /** Bonus for what is left when the level is won. */
+  scoreLevelEnd(
+    movesLeft: number,
+    bombsLeft: number,
+    teleportsLeft: number
+  ): LevelEndBonus;
+}
+
+/** Scoring presets a level can pick by name. */
+const PRESETS: { [name: string]: () => ScoringRules } = {
+  // flat points per tile, only the mega bomb pays extra
+  classic: () => ({
+    curve: 'linear',
+    baseScorePerTile: GameConfig.baseScorePerTile,
+    curveFactor: 0,
+    specialMultipliers: {
+      [TileSpecial.MegaBomb]: GameConfig.megaBombScoreMultiplier,
+    },
+    chainWaveBonus: 0,
+    chainedSpecialBonus: 0,
+    unusedMoveBonus: 0,
+    unusedBoosterBonus: 0,
+  }),
+
+  // big groups, specials and long chains pay off; leftovers are rewarded
+  combo: () => ({
+    curve: 'quadratic',
+    baseScorePerTile: GameConfig.baseScorePerTile,
+    curveFactor: 5,
+    specialMultipliers: {
+      bomb: 1,
+      [TileSpecial.RocketH]: 1.5,
+      [TileSpecial.RocketV]: 1.5,
+      [TileSpecial.ColorClear]: 2,
+      [TileSpecial.MegaBomb]: GameConfig.megaBombScoreMultiplier,
+    },
+    chainWaveBonus: 0.5,
+    chainedSpecialBonus: 50,
+    unusedMoveBonus: 50,
+    unusedBoosterBonus: 100,
+  }),
+};
+
+export const SCORING_PRESETS = Object.keys(PRESETS);
+
+export const DEFAULT_SCORING_PRESET = 'classic';
+
+/** Rules of a preset (fresh copy), or null for an unknown name. */
+export function createScoringRules(preset: string): ScoringRules | null {
+  const create = PRESETS[preset];
+  return create ? create() : null;
+}
+
+/** Scoring model driven by ScoringRules. */
+export default class RuleScoring implements ScoringModel {
+  readonly rules: ScoringRules;
+
+  constructor(rules: ScoringRules) {
+    this.rules = rules;
+  }
+
+  public scoreGroup(size: number): number {
+    const { curve, baseScorePerTile, curveFactor } = this.rules;
+    const extra = Math.max(0, size - GameConfig.minGroupSize);
+
+    switch (curve) {
+      case 'quadratic':
+        return size * (baseScorePerTile + curveFactor * extra);
+      case 'exponential':
+        return Math.round(
+          size *
+            baseScorePerTile *
+            Math.min(Math.pow(curveFactor, extra), MAX_EXPONENTIAL_MULTIPLIER)
+        );
+      default:
+        return size * baseScorePerTile;
+    }
+  }
+
+  /**
+   * Every wave scores its tiles with the best multiplier of its triggers,
+   * boosted by the wave index; chained specials add a flat bonus.
+   */
+  public scoreChain(chain: ChainResult): number {
+    const { baseScorePerTile, chainWaveBonus, chainedSpecialBonus } =
+      this.rules;
+
+    let total = 0;
+    chain.waves.forEach((wave, index) => {
+      const kinds = wave.triggers.map((t) => t.kind);
+      const multiplier =
+        this.getMultiplier(kinds) * (1 + chainWaveBonus * index);
+      total += wave.cells.length * baseScorePerTile * multiplier;
+    });
+
+    return Math.round(total) + chain.chainedSpecials * chainedSpecialBonus;
+  }
+
+  public scoreLevelEnd(
+    movesLeft: number,
+    bombsLeft: number,
+    teleportsLeft: number
+  ): LevelEndBonus {
+    return {
+      moves: Math.max(0, movesLeft) * this.rules.unusedMoveBonus,
+      boosters: (bombsLeft + teleportsLeft) * this.rules.unusedBoosterBonus,
+    };
+  }
+
+  private getMultiplier(kinds: ChainTriggerKind[]): number {
+    let best = 0;
+    for (const kind of kinds) {
+      const value = this.rules.specialMultipliers[kind];
+      best = Math.max(best, typeof value === 'number' ? value : 1);
+    }
+    return kinds.length > 0 ? best : 1;
+  }
+}
@@ -0,0 +1,44 @@
+// assets/scripts/app/TimedMode.ts
+
+import { GameConfig } from './AppConfig';
+
+/**
+ * How a level limits the player:
+ * - moves: every group removal spends a move, the level is lost at 0
+ * - timed: a countdown instead of moves, groups add bonus seconds
+ * - endless: no target and no move limit, the board gets harder
+ *   until no moves and reshuffles are left (see EndlessMode)
+ */
+export type GameMode = 'moves' | 'timed' | 'endless';
+
+export const GAME_MODES: GameMode[] = ['moves', 'timed', 'endless'];
+
+/** Countdown settings of a timed level. */
+export interface TimerRules {
+  /** Time at the start of the level. */
+  seconds: number;
+  /** Bonus seconds per tile above `GameConfig.minGroupSize` in a removed group. */
+  bonusPerTile: number;
+  /** The clock stops for this long after a bomb or teleport is used. */
+  boosterFreeze: number;
+}
+
+export function createTimerRules(): TimerRules {
+  return {
+    seconds: GameConfig.timedModeSeconds,
+    bonusPerTile: GameConfig.timeBonusPerTile,
+    boosterFreeze: GameConfig.boosterFreezeSeconds,
+  };
+}
+
+/** Seconds a removed group of `size` tiles adds to the clock. */
+export function getGroupTimeBonus(rules: TimerRules, size: number): number {
+  return Math.max(0, size - GameConfig.minGroupSize) * rules.bonusPerTile;
+}
+
+/** Clock text, rounded up to whole seconds: "1:05". */
+export function formatTime(seconds: number): string {
+  const total = Math.max(0, Math.ceil(seconds));
+  const rest = total % 60;
+  return `${Math.floor(total / 60)}:${rest < 10 ? '0' : ''}${rest}`;
+}
@@ -70,7 +70,8 @@ export default class BombController {
     for (let r = r0 - R; r <= r0 + R; r++) {
       for (let c = c0 - R; c <= c0 + R; c++) {
         if (r < 0 || r >= rows || c < 0 || c >= cols) continue;
-        if (this.board.grid[r][c] === null) continue;
+        // empty cells, holes and stones are not affected
+        if (!this.board.isDestructible(r, c)) continue;
         cells.push({ row: r, col: c });
       }
     }
@@ -0,0 +1,158 @@
+// assets/scripts/app/controllers/ChainReactionController.ts
+
+import BoardModel, { ObstacleChanges } from '../../domain/BoardModel';
+import { TileColor, TilePos, TileSpecial } from '../../shared/types';
+import { debugLog } from '../../debug/Debug';
+import MegaBombController from './MegaBombController';
+import RocketController from './RocketController';
+import ColorClearController from './ColorClearController';
+
+/** What started a wave: the bomb booster or a special tile. */
+export type ChainTriggerKind = 'bomb' | TileSpecial;
+
+export interface ChainTrigger {
+  pos: TilePos;
+  kind: ChainTriggerKind;
+}
+
+/** One step of a cascade: cells removed at once and what caused them. */
+export interface ChainWave {
+  cells: TilePos[];
+  /** Specials (or booster) whose effect produced this wave. */
+  triggers: ChainTrigger[];
+  obstacles: ObstacleChanges;
+}
+
+export interface ChainResult {
+  waves: ChainWave[];
+  /** Total number of removed cells over all waves. */
+  totalRemoved: number;
+  /** Number of specials set off by other explosions (origin not counted). */
+  chainedSpecials: number;
+}
+
+/**
+ * Resolves explosions as cascades:
+ * - removes the initial cells as the first wave
+ * - every special caught in a wave fires its own effect in the next wave
+ * - repeats until a wave hits no new specials
+ */
+export default class ChainReactionController {
+  private board: BoardModel | null = null;
+  private readonly megaBombs: MegaBombController;
+  private readonly rockets: RocketController;
+  private readonly colorClears: ColorClearController;
+
+  constructor(
+    megaBombs: MegaBombController,
+    rockets: RocketController,
+    colorClears: ColorClearController
+  ) {
+    this.megaBombs = megaBombs;
+    this.rockets = rockets;
+    this.colorClears = colorClears;
+  }
+
+  public setBoard(board: BoardModel | null) {
+    this.board = board;
+  }
+
+  /**
+   * Remove `cells` and everything their specials chain into.
+   * `origin` is the special (or bomb booster) that caused the first wave;
+   * a special is not triggered again if it lies inside its own blast,
+   * while a special under the bomb booster fires in the next wave.
+   */
+  public resolve(cells: TilePos[], origin: ChainTrigger): ChainResult {
+    const result: ChainResult = {
+      waves: [],
+      totalRemoved: 0,
+      chainedSpecials: 0,
+    };
+    if (!this.board) return result;
+
+    const board = this.board;
+    const removed = new Set<string>();
+    const triggered = new Set<string>();
+    if (origin.kind !== 'bomb') triggered.add(key(origin.pos));
+
+    let wave = cells;
+    let triggers: ChainTrigger[] = [origin];
+
+    while (wave.length > 0) {
+      // specials hit by this wave, captured before removal clears them
+      const nextTriggers: ChainTrigger[] = [];
+      const nextCells: TilePos[] = [];
+
+      for (const pos of wave) {
+        if (triggered.has(key(pos))) continue;
+
+        const kind = this.getSpecialKind(pos);
+        if (!kind) continue;
+
+        triggered.add(key(pos));
+        nextTriggers.push({ pos, kind });
+        nextCells.push(...this.getEffectCells(pos, kind));
+      }
+
+      for (const pos of wave) removed.add(key(pos));
+
+      const obstacles = board.removeGroup(wave);
+      result.waves.push({ cells: wave, triggers, obstacles });
+      result.totalRemoved += wave.length;
+      result.chainedSpecials += nextTriggers.length;
+
+      // only cells not taken by earlier waves and still holding something
+      const seen = new Set<string>();
+      wave = nextCells.filter((p) => {
+        const k = key(p);
+        if (removed.has(k) || seen.has(k)) return false;
+        seen.add(k);
+        return board.isDestructible(p.row, p.col);
+      });
+      triggers = nextTriggers;
+    }
+
+    debugLog(
+      'ChainReactionController',
+      `resolve: waves=${result.waves.length}, removed=${result.totalRemoved}, chained=${result.chainedSpecials}`
+    );
+
+    return result;
+  }
+
+  /** Special that fires when the cell is caught in an explosion, if any. */
+  private getSpecialKind(pos: TilePos): TileSpecial | null {
+    if (!this.board) return null;
+    if (!this.board.hasActiveSpecial(pos.row, pos.col)) return null;
+
+    if (this.board.grid[pos.row][pos.col] === TileColor.MegaBomb) {
+      return TileSpecial.MegaBomb;
+    }
+    return this.board.getSpecial(pos.row, pos.col);
+  }
+
+  private getEffectCells(pos: TilePos, kind: TileSpecial): TilePos[] {
+    switch (kind) {
+      case TileSpecial.MegaBomb: {
+        const res = this.megaBombs.getExplosionCells(pos.row, pos.col);
+        return res ? res.cells : [];
+      }
+      case TileSpecial.RocketH:
+      case TileSpecial.RocketV: {
+        const res = this.rockets.getLineCells(pos.row, pos.col);
+        return res ? res.cells : [];
+      }
+      case TileSpecial.ColorClear: {
+        const res = this.colorClears.getTargetCells(pos.row, pos.col);
+        return res ? res.cells : [];
+      }
+      default:
+        return [];
+    }
+  }
+}
+
+function key(pos: TilePos): string {
+  return `${pos.row}:${pos.col}`;
+}
@@ -0,0 +1,142 @@
+// assets/scripts/app/controllers/ColorClearController.ts
+
+import BoardModel, { ObstacleChanges } from '../../domain/BoardModel';
+import { TileColor, TilePos, TileSpecial } from '../../shared/types';
+import { debugLog } from '../../debug/Debug';
+
+export interface ColorClearCreationResult {
+  created: boolean;
+  /** Cells that should be removed from the board (excluding the center). */
+  removedCells: TilePos[];
+  obstacles?: ObstacleChanges;
+}
+
+export interface ColorClearResult {
+  /** Color that is cleared. */
+  color: TileColor;
+  /** Cells to remove, including the color-clear tile itself. */
+  cells: TilePos[];
+}
+
+/**
+ * Handles the color-clear special (mid tier between rocket and mega bomb):
+ * - a large group turns into a color-clear tile that keeps the group color
+ * - tapping it removes every tile of that color; if none are left,
+ *   the most common color among its neighbors is used instead
+ */
+export default class ColorClearController {
+  private board: BoardModel | null = null;
+  private readonly minGroupSize: number;
+  private readonly maxGroupSize: number;
+
+  /**
+   * @param minGroupSize smallest group that spawns a color clear
+   * @param maxGroupSize groups of this size and bigger spawn a stronger special
+   */
+  constructor(
+    board: BoardModel | null,
+    minGroupSize: number,
+    maxGroupSize: number
+  ) {
+    this.board = board;
+    this.minGroupSize = minGroupSize;
+    this.maxGroupSize = maxGroupSize;
+  }
+
+  public setBoard(board: BoardModel | null) {
+    this.board = board;
+  }
+
+  public canCreateFromSize(size: number): boolean {
+    return size >= this.minGroupSize && size < this.maxGroupSize;
+  }
+
+  public isColorClear(row: number, col: number): boolean {
+    if (!this.board) return false;
+    return this.board.getSpecial(row, col) === TileSpecial.ColorClear;
+  }
+
+  /**
+   * Turn a group into a color clear at the given center:
+   * - all cells except `center` are removed
+   * - center keeps its color (the color it will clear)
+   */
+  public createFromGroup(
+    group: TilePos[],
+    center: TilePos
+  ): ColorClearCreationResult {
+    if (!this.board || !this.canCreateFromSize(group.length)) {
+      return { created: false, removedCells: [] };
+    }
+
+    const withoutCenter = group.filter(
+      (p) => !(p.row === center.row && p.col === center.col)
+    );
+
+    const obstacles = this.board.removeGroup(withoutCenter);
+    this.board.setSpecial(center.row, center.col, TileSpecial.ColorClear);
+
+    debugLog(
+      'ColorClearController',
+      `Create ColorClear at (${center.row},${center.col}), groupSize=${group.length}`
+    );
+
+    return { created: true, removedCells: withoutCenter, obstacles };
+  }
+
+  /**
+   * Activate a color clear: collects all tiles of its color and itself.
+   * Does NOT remove them, removal goes through the chain resolver.
+   */
+  public getTargetCells(row: number, col: number): ColorClearResult | null {
+    if (!this.board || !this.isColorClear(row, col)) return null;
+
+    let color = this.board.grid[row][col];
+    let cells = color ? this.board.findAllOfColor(color) : [];
+
+    if (cells.length === 0) {
+      color = this.pickNeighborColor(row, col);
+      cells = color ? this.board.findAllOfColor(color) : [];
+    }
+
+    if (!color) return null;
+
+    cells.push({ row, col });
+
+    debugLog(
+      'ColorClearController',
+      `activate at (${row},${col}), color=${color}, tiles=${cells.length}`
+    );
+
+    return { color, cells };
+  }
+
+  /** Most common regular color among neighbors (fallback target). */
+  private pickNeighborColor(row: number, col: number): TileColor | null {
+    if (!this.board) return null;
+
+    const counts = new Map<TileColor, number>();
+    const neighbors = this.board.getNeighbors(row, col);
+
+    let best: TileColor | null = null;
+    let bestCount = 0;
+
+    for (const p of neighbors) {
+      if (!this.board.isMovable(p.row, p.col)) continue;
+      if (this.board.getSpecial(p.row, p.col) !== TileSpecial.None) continue;
+
+      const color = this.board.grid[p.row][p.col];
+      if (!color || color === TileColor.MegaBomb) continue;
+
+      const count = (counts.get(color) || 0) + 1;
+      counts.set(color, count);
+
+      if (count > bestCount) {
+        best = color;
+        bestCount = count;
+      }
+    }
+
+    return best;
+  }
+}
@@ -0,0 +1,137 @@
+// assets/scripts/app/controllers/HintController.ts
+
+import BoardModel from '../../domain/BoardModel';
+import { TilePos } from '../../shared/types';
+import { GameConfig } from '../AppConfig';
+import { debugLog } from '../../debug/Debug';
+
+export interface HintSuggestion {
+  cells: TilePos[];
+  /** Ranking score: group size plus bonus for the special it would create. */
+  rank: number;
+}
+
+/** Extra rank for groups that would spawn a special tile. */
+const SPECIAL_RANK_BONUS = {
+  rocket: 10,
+  colorClear: 20,
+  megaBomb: 30,
+};
+
+/**
+ * Idle hint logic:
+ * - counts idle time while the board is waiting for input
+ * - after `delaySeconds` picks the best move (biggest group, special potential first)
+ * - does NOT animate anything itself, GameController shows the cells
+ */
+export default class HintController {
+  private board: BoardModel | null;
+  private readonly delaySeconds: number;
+  private readonly minGroupSize: number;
+
+  private idleTime = 0;
+  private current: HintSuggestion | null = null;
+
+  constructor(
+    board: BoardModel | null,
+    delaySeconds: number = GameConfig.hintDelaySeconds,
+    minGroupSize: number = GameConfig.minGroupSize
+  ) {
+    this.board = board;
+    this.delaySeconds = delaySeconds;
+    this.minGroupSize = minGroupSize;
+  }
+
+  /** Update board reference (on game start / restart). */
+  public setBoard(board: BoardModel | null) {
+    this.board = board;
+    this.reset();
+  }
+
+  /** Restart idle countdown and forget the shown hint. */
+  public reset() {
+    this.idleTime = 0;
+    this.current = null;
+  }
+
+  public getCurrent(): HintSuggestion | null {
+    return this.current;
+  }
+
+  /**
+   * Advance idle timer. Returns a suggestion exactly once,
+   * when the delay is reached; null otherwise.
+   */
+  public tick(dt: number): HintSuggestion | null {
+    if (!this.board || this.current || this.delaySeconds <= 0) return null;
+
+    this.idleTime += dt;
+    if (this.idleTime < this.delaySeconds) return null;
+
+    this.current = this.findBestMove();
+    if (!this.current) {
+      // nothing to suggest, try again after another delay
+      this.idleTime = 0;
+    }
+
+    return this.current;
+  }
+
+  /**
+   * Rank all groups on the board and return the best one.
+   * If there are no groups, suggests any special tile (it can always be tapped).
+   */
+  public findBestMove(): HintSuggestion | null {
+    if (!this.board) return null;
+
+    let best: HintSuggestion | null = null;
+
+    for (const group of this.board.findAllGroups(this.minGroupSize)) {
+      const rank = rankGroupSize(group.length);
+      if (!best || rank > best.rank) {
+        best = { cells: group, rank };
+      }
+    }
+
+    if (!best) {
+      best = this.findSpecialMove();
+    }
+
+    if (best) {
+      debugLog(
+        'HintController',
+        `best move: size=${best.cells.length}, rank=${best.rank}`
+      );
+    }
+
+    return best;
+  }
+
+  private findSpecialMove(): HintSuggestion | null {
+    if (!this.board) return null;
+
+    for (let row = 0; row < this.board.rows; row++) {
+      for (let col = 0; col < this.board.cols; col++) {
+        if (this.board.hasActiveSpecial(row, col)) {
+          return { cells: [{ row, col }], rank: 0 };
+        }
+      }
+    }
+
+    return null;
+  }
+}
+
+/** Bigger groups rank higher; special tiers outrank any plain group. */
+function rankGroupSize(size: number): number {
+  if (size >= GameConfig.megaBombMinGroupSize) {
+    return size + SPECIAL_RANK_BONUS.megaBomb;
+  }
+  if (size >= GameConfig.colorClearMinGroupSize) {
+    return size + SPECIAL_RANK_BONUS.colorClear;
+  }
+  if (size >= GameConfig.rocketMinGroupSize) {
+    return size + SPECIAL_RANK_BONUS.rocket;
+  }
+  return size;
+}
@@ -0,0 +1,59 @@
+// assets/scripts/app/controllers/HistoryController.ts
+
+/**
+ * Undo / redo history of positions:
+ * - `record(before)` is called before every move, it drops the redo branch
+ * - `undo(current)` / `redo(current)` swap the current position with a stored one
+ * - keeps at most `limit` undo steps
+ */
+export default class HistoryController<T> {
+  private past: T[] = [];
+  private future: T[] = [];
+  private readonly limit: number;
+
+  constructor(limit: number) {
+    this.limit = limit;
+  }
+
+  public clear() {
+    this.past = [];
+    this.future = [];
+  }
+
+  public canUndo(): boolean {
+    return this.past.length > 0;
+  }
+
+  public canRedo(): boolean {
+    return this.future.length > 0;
+  }
+
+  /** Remember the position before a move. */
+  public record(before: T) {
+    if (this.limit <= 0) return;
+
+    this.past.push(before);
+    if (this.past.length > this.limit) {
+      this.past.shift();
+    }
+    this.future = [];
+  }
+
+  /** Step back: returns the previous position, or null if there is none. */
+  public undo(current: T): T | null {
+    const previous = this.past.pop();
+    if (previous === undefined) return null;
+
+    this.future.push(current);
+    return previous;
+  }
+
+  /** Step forward after an undo: returns the next position, or null. */
+  public redo(current: T): T | null {
+    const next = this.future.pop();
+    if (next === undefined) return null;
+
+    this.past.push(current);
+    return next;
+  }
+}
@@ -1,6 +1,6 @@
 // assets/scripts/app/controllers/MegaBombController.ts
 
-import BoardModel from '../../domain/BoardModel';
+import BoardModel, { ObstacleChanges } from '../../domain/BoardModel';
 import { TilePos, TileColor } from '../../shared/types';
 import { debugLog } from '../../debug/Debug';
 
@@ -9,11 +9,13 @@ export interface MegaBombCreationResult {
   center?: TilePos;
   /** Cells that should be removed from the board (excluding the center). */
   removedCells: TilePos[];
+  /** Crates / ice affected by the removal. */
+  obstacles?: ObstacleChanges;
 }
 
 export interface MegaBombExplosionResult {
-  /** Cells that were removed by explosion. */
-  removedCells: TilePos[];
+  /** Cells hit by the explosion. */
+  cells: TilePos[];
   /** Total number of tiles on the board at the moment of explosion. */
   totalTiles: number;
 }
@@ -69,7 +71,7 @@ export default class MegaBombController {
       (p) => !(p.row === center.row && p.col === center.col)
     );
 
-    this.board.removeGroup(withoutCenter);
+    const obstacles = this.board.removeGroup(withoutCenter);
 
     // mark center cell as mega bomb
     (this.board.grid as any)[center.row][center.col] = TileColor.MegaBomb;
@@ -83,15 +85,19 @@ export default class MegaBombController {
       created: true,
       center,
       removedCells: withoutCenter,
+      obstacles,
     };
   }
 
   /**
    * Explode a mega bomb:
-   * - collects all non-empty cells
-   * - removes them from the board
+   * - collects all destructible cells (tiles and crates, not stones)
+   * - does NOT remove them, removal goes through the chain resolver
    */
-  public explode(row: number, col: number): MegaBombExplosionResult | null {
+  public getExplosionCells(
+    row: number,
+    col: number
+  ): MegaBombExplosionResult | null {
     if (!this.board) return null;
     if (this.board.grid[row][col] !== TileColor.MegaBomb) {
       debugLog(
@@ -104,7 +110,7 @@ export default class MegaBombController {
     const removed: TilePos[] = [];
     for (let r = 0; r < this.board.rows; r++) {
       for (let c = 0; c < this.board.cols; c++) {
-        if (this.board.grid[r][c] != null) {
+        if (this.board.isDestructible(r, c)) {
           removed.push({ row: r, col: c });
         }
       }
@@ -116,13 +122,11 @@ export default class MegaBombController {
       return null;
     }
 
-    this.board.removeGroup(removed);
-
     debugLog(
       'MegaBombController',
       `explode: tiles=${totalTiles} (MegaBomb at ${row},${col})`
     );
 
-    return { removedCells: removed, totalTiles };
+    return { cells: removed, totalTiles };
   }
 }
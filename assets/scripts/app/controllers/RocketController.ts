@@ -0,0 +1,143 @@
+// assets/scripts/app/controllers/RocketController.ts
+
+import BoardModel, { ObstacleChanges } from '../../domain/BoardModel';
+import { TilePos, TileSpecial } from '../../shared/types';
+import { debugLog } from '../../debug/Debug';
+
+export interface RocketCreationResult {
+  created: boolean;
+  special?: TileSpecial;
+  /** Cells that should be removed from the board (excluding the center). */
+  removedCells: TilePos[];
+  obstacles?: ObstacleChanges;
+}
+
+export interface RocketFireResult {
+  /** Cells hit along the rocket line (including the rocket itself). */
+  cells: TilePos[];
+  horizontal: boolean;
+}
+
+/**
+ * Handles creation and firing of line rockets.
+ * - medium groups (rocketMinGroupSize .. megaBombMinGroupSize - 1) become a rocket
+ * - rocket orientation follows the group shape (wide group -> horizontal)
+ * - a fired rocket clears its whole row or column
+ */
+export default class RocketController {
+  private board: BoardModel | null = null;
+  private readonly minGroupSize: number;
+  private readonly maxGroupSize: number;
+
+  /**
+   * @param minGroupSize smallest group that spawns a rocket
+   * @param maxGroupSize groups of this size and bigger spawn a stronger special
+   */
+  constructor(
+    board: BoardModel | null,
+    minGroupSize: number,
+    maxGroupSize: number
+  ) {
+    this.board = board;
+    this.minGroupSize = minGroupSize;
+    this.maxGroupSize = maxGroupSize;
+  }
+
+  public setBoard(board: BoardModel | null) {
+    this.board = board;
+  }
+
+  /** Check if a group of given size should become a rocket. */
+  public canCreateFromSize(size: number): boolean {
+    return size >= this.minGroupSize && size < this.maxGroupSize;
+  }
+
+  public isRocket(row: number, col: number): boolean {
+    if (!this.board) return false;
+    const special = this.board.getSpecial(row, col);
+    return special === TileSpecial.RocketH || special === TileSpecial.RocketV;
+  }
+
+  /**
+   * Turn a group into a rocket at the given center:
+   * - all cells except `center` are removed
+   * - center keeps its color and gets a rocket special
+   */
+  public createFromGroup(
+    group: TilePos[],
+    center: TilePos
+  ): RocketCreationResult {
+    if (!this.board || !this.canCreateFromSize(group.length)) {
+      return { created: false, removedCells: [] };
+    }
+
+    const special = isWide(group) ? TileSpecial.RocketH : TileSpecial.RocketV;
+
+    const withoutCenter = group.filter(
+      (p) => !(p.row === center.row && p.col === center.col)
+    );
+
+    const obstacles = this.board.removeGroup(withoutCenter);
+    this.board.setSpecial(center.row, center.col, special);
+
+    debugLog(
+      'RocketController',
+      `Create ${special} at (${center.row},${center.col}), groupSize=${group.length}`
+    );
+
+    return {
+      created: true,
+      special,
+      removedCells: withoutCenter,
+      obstacles,
+    };
+  }
+
+  /**
+   * Fire a rocket: collects every destructible cell in its row (horizontal)
+   * or column (vertical), including the rocket itself.
+   * Does NOT remove them, removal goes through the chain resolver.
+   */
+  public getLineCells(row: number, col: number): RocketFireResult | null {
+    if (!this.board || !this.isRocket(row, col)) return null;
+
+    const horizontal = this.board.getSpecial(row, col) === TileSpecial.RocketH;
+
+    const cells: TilePos[] = [];
+    if (horizontal) {
+      for (let c = 0; c < this.board.cols; c++) {
+        if (this.board.isDestructible(row, c)) cells.push({ row, col: c });
+      }
+    } else {
+      for (let r = 0; r < this.board.rows; r++) {
+        if (this.board.isDestructible(r, col)) cells.push({ row: r, col });
+      }
+    }
+
+    debugLog(
+      'RocketController',
+      `fire: ${horizontal ? 'row' : 'col'} at (${row},${col}), tiles=${
+        cells.length
+      }`
+    );
+
+    return { cells, horizontal };
+  }
+}
+
+/** Group is wider than tall -> horizontal rocket. */
+function isWide(group: TilePos[]): boolean {
+  let minRow = Infinity;
+  let maxRow = -Infinity;
+  let minCol = Infinity;
+  let maxCol = -Infinity;
+
+  for (const { row, col } of group) {
+    minRow = Math.min(minRow, row);
+    maxRow = Math.max(maxRow, row);
+    minCol = Math.min(minCol, col);
+    maxCol = Math.max(maxCol, col);
+  }
+
+  return maxCol - minCol > maxRow - minRow;
+}
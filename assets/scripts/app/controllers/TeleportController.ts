@@ -1,6 +1,6 @@
 // assets/scripts/app/controllers/TeleportController.ts
 
-import { TileClickPayload, TilePos } from '../../shared/types';
+import { TilePos } from '../../shared/types';
 import BoardModel from '../../domain/BoardModel';
 import { debugLog } from '../../debug/Debug';
 
@@ -48,6 +48,11 @@ export default class TeleportController {
     return this.active;
   }
 
+  /** First tile selected for a swap, if any. */
+  public getSelection(): TilePos | null {
+    return this.first;
+  }
+
   /** Clear currently selected tile, but keep mode active. */
   public resetSelection() {
     this.first = null;
@@ -70,11 +75,14 @@ export default class TeleportController {
    *
    * If nothing meaningful happens, returns null.
    */
-  public handleClick(payload: TileClickPayload): TeleportClickResult | null {
+  public handleClick(click: TilePos): TeleportClickResult | null {
     if (!this.active) return null;
     if (!this.boardModel) return null;
 
-    const pos: TilePos = { row: payload.row, col: payload.col };
+    const pos: TilePos = { row: click.row, col: click.col };
+
+    // Obstacles (stones, crates) can't be teleported
+    if (!this.boardModel.isMovable(pos.row, pos.col)) return null;
 
     // 1) No tile selected yet — select the first one
     if (!this.first) {
@@ -89,10 +97,8 @@ export default class TeleportController {
       return { type: 'deselect', pos: prev };
     }
 
-    // 3) Check if neighbor (Manhattan distance == 1)
-    const dr = Math.abs(this.first.row - pos.row);
-    const dc = Math.abs(this.first.col - pos.col);
-    const isNeighbor = dr + dc === 1;
+    // 3) Check if neighbor (4-neighbors on square boards, 6 on hex boards)
+    const isNeighbor = this.boardModel.areNeighbors(this.first, pos);
 
     if (!isNeighbor) {
       // Not a neighbor — move selection to another tile
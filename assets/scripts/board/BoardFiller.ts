@@ -1,13 +1,26 @@
 import { debugLog } from '../debug/Debug';
-import { TileColor, TILE_COLORS, TileGrid, TilePos } from '../shared/types';
+import {
+  BoardLayers,
+  GravityDirection,
+  GRAVITY_STEPS,
+  TileColor,
+  TILE_COLORS,
+  TileGrid,
+  TilePos,
+  TileSpecial,
+} from '../shared/types';
 import TileView from './TileView';
-import { GravityMovement, RefillInfo } from '../domain/BoardModel';
+import { GravityMovement, IceHit, RefillInfo } from '../domain/BoardModel';
+import { GridTopology } from '../domain/GridTopology';
 
 const { ccclass, property } = cc._decorator;
 
 // Aspect from art: width 100, height 112
 const TILE_ASPECT = 112 / 100; // height / width
 
+// Hex columns overlap: horizontal step is 3/4 of a tile width
+const HEX_COL_STEP = 0.75;
+
 /**
  * BoardFiller:
  * - owns tile nodes and their layout
@@ -51,8 +64,39 @@ export default class BoardFiller extends cc.Component {
   @property(cc.SpriteFrame)
   megaBombSprite: cc.SpriteFrame = null;
 
+  /** Line rocket sprites (block_rockets_horisontal / block_rakets). */
+  @property(cc.SpriteFrame)
+  rocketHorizontalSprite: cc.SpriteFrame = null;
+
+  @property(cc.SpriteFrame)
+  rocketVerticalSprite: cc.SpriteFrame = null;
+
+  /** Color clear special sprite. */
+  @property(cc.SpriteFrame)
+  colorClearSprite: cc.SpriteFrame = null;
+
+  /** Optional background frame for hole (masked) cells. Holes stay empty if not set. */
+  @property(cc.SpriteFrame)
+  holeSprite: cc.SpriteFrame = null;
+
+  /** Obstacle sprites. */
+  @property(cc.SpriteFrame)
+  stoneSprite: cc.SpriteFrame = null;
+
+  @property(cc.SpriteFrame)
+  crateSprite: cc.SpriteFrame = null;
+
+  /** Drop item (objective: bring it to the bottom edge). */
+  @property(cc.SpriteFrame)
+  dropItemSprite: cc.SpriteFrame = null;
+
+  /** Ice overlay drawn above tiles; more transparent as hit points go down. */
+  @property(cc.SpriteFrame)
+  iceSprite: cc.SpriteFrame = null;
+
   private grid: TileGrid = [];
   private viewGrid: (TileView | null)[][] = [];
+  private iceViews: (cc.Node | null)[][] = [];
 
   // cached layout for animations
   private tileWidth: number = 0;
@@ -60,6 +104,8 @@ export default class BoardFiller extends cc.Component {
   private startX: number = 0;
   private startY: number = 0;
 
+  private topology: GridTopology = 'square';
+
   onLoad() {
     // Board is created by GameEntry via renderFromGrid
   }
@@ -67,8 +113,9 @@ export default class BoardFiller extends cc.Component {
   /**
    * Full board render from model grid.
    * Used on game start / reset / reshuffle.
+   * `layers` adds holes (never get a tile view), obstacles and ice.
    */
-  public renderFromGrid(grid: TileGrid) {
+  public renderFromGrid(grid: TileGrid, layers: BoardLayers = {}) {
     if (!grid || grid.length === 0) {
       debugLog('BoardFiller', 'renderFromGrid: empty grid');
       return;
@@ -86,25 +133,45 @@ export default class BoardFiller extends cc.Component {
 
     this.node.removeAllChildren();
     this.viewGrid = [];
+    this.iceViews = [];
+
+    const { mask, specials, ice } = layers;
 
     for (let row = 0; row < rows; row++) {
       const rowColors = grid[row];
       const viewRow: (TileView | null)[] = [];
+      const iceRow: (cc.Node | null)[] = [];
 
       for (let col = 0; col < cols; col++) {
         const color = rowColors[col];
+        const special =
+          specials && specials[row] ? specials[row][col] : TileSpecial.None;
+
+        iceRow.push(
+          ice && ice[row] && ice[row][col] > 0
+            ? this.createIceOverlay(row, col, ice[row][col])
+            : null
+        );
+
+        // hole cell -> optional background frame, never a tile
+        if (mask && mask[row] && !mask[row][col]) {
+          this.createHoleFrame(row, col);
+          viewRow.push(null);
+          continue;
+        }
 
-        // empty model cell -> no tile view
-        if (!color) {
+        // empty model cell (no color, no obstacle) -> no tile view
+        if (!color && !isObstacle(special)) {
           viewRow.push(null);
           continue;
         }
 
-        const view = this.createTileView(row, col, color);
+        const view = this.createTileView(row, col, color, special);
         viewRow.push(view);
       }
 
       this.viewGrid.push(viewRow);
+      this.iceViews.push(iceRow);
     }
   }
 
@@ -113,11 +180,13 @@ export default class BoardFiller extends cc.Component {
    * - removeGroup
    * - applyGravity
    * - refillEmptyCells
+   * Tiles move along the gravity axis, refills slide in from the opposite edge.
    */
   public applyGravityAndRefillAnimations(
     grid: TileGrid,
     movements: GravityMovement[],
     refills: RefillInfo[],
+    gravity: GravityDirection,
     onComplete?: () => void
   ) {
     // sync with current model state
@@ -159,7 +228,7 @@ export default class BoardFiller extends cc.Component {
       cc.Tween.stopAllByTarget(view.node);
 
       cc.tween(view.node)
-        .to(0.15, { y: targetPos.y })
+        .to(0.15, { x: targetPos.x, y: targetPos.y })
         .call(() => {
           pending--;
           tryFinish();
@@ -167,10 +236,23 @@ export default class BoardFiller extends cc.Component {
         .start();
     }
 
-    // spawn new tiles
+    // spawn new tiles: each line's refills enter together from the far edge
+    const step = GRAVITY_STEPS[gravity];
+    const vertical = step.row !== 0;
+    const perLine = new Map<number, number>();
+    for (const { pos } of refills) {
+      const line = vertical ? pos.col : pos.row;
+      perLine.set(line, (perLine.get(line) || 0) + 1);
+    }
+
     for (const info of refills) {
       const { pos, color } = info;
-      const view = this.createTileView(pos.row, pos.col, color);
+      const view = this.createTileView(
+        pos.row,
+        pos.col,
+        color,
+        info.special || TileSpecial.None
+      );
       if (!view) continue;
 
       if (!this.viewGrid[pos.row]) {
@@ -178,9 +260,15 @@ export default class BoardFiller extends cc.Component {
       }
       this.viewGrid[pos.row][pos.col] = view;
 
+      const shift = perLine.get(vertical ? pos.col : pos.row) || 1;
+      const from = this.getTilePosition(
+        pos.row - step.row * shift,
+        pos.col - step.col * shift
+      );
+
       pending++;
 
-      view.playSpawn(() => {
+      view.playSlideIn(from, () => {
         pending--;
         tryFinish();
       });
@@ -191,6 +279,11 @@ export default class BoardFiller extends cc.Component {
     }
   }
 
+  /** Square or hex layout; applied on the next renderFromGrid. */
+  public setTopology(topology: GridTopology) {
+    this.topology = topology;
+  }
+
   public getTileView(row: number, col: number): TileView | null {
     const rowArr = this.viewGrid[row];
     if (!rowArr) return null;
@@ -207,8 +300,15 @@ export default class BoardFiller extends cc.Component {
     const innerW = boardW - this.paddingX * 2;
     const innerH = boardH - this.paddingY * 2;
 
-    const cellW = (innerW - (cols - 1) * this.gapX) / cols;
-    const cellH = (innerH - (rows - 1) * this.gapY) / rows;
+    // hex: columns overlap, odd columns are shifted down by half a cell
+    const hex = this.topology === 'hex';
+    const colStep = hex ? HEX_COL_STEP : 1;
+    const extraRows = hex && cols > 1 ? 0.5 : 0;
+
+    const cellW =
+      (innerW - (cols - 1) * this.gapX) / (1 + (cols - 1) * colStep);
+    const cellH =
+      (innerH - (rows - 1 + extraRows) * this.gapY) / (rows + extraRows);
 
     let tileW = cellW;
     let tileH = tileW * TILE_ASPECT;
@@ -218,8 +318,9 @@ export default class BoardFiller extends cc.Component {
       tileW = tileH / TILE_ASPECT;
     }
 
-    const tilesTotalW = cols * tileW + (cols - 1) * this.gapX;
-    const tilesTotalH = rows * tileH + (rows - 1) * this.gapY;
+    const tilesTotalW = tileW + (cols - 1) * (tileW * colStep + this.gapX);
+    const tilesTotalH =
+      rows * tileH + (rows - 1) * this.gapY + extraRows * (tileH + this.gapY);
 
     const freeW = innerW - tilesTotalW;
     const freeH = innerH - tilesTotalH;
@@ -249,16 +350,94 @@ export default class BoardFiller extends cc.Component {
   }
 
   private getTilePosition(row: number, col: number): cc.Vec2 {
+    const stepY = this.tileHeight + this.gapY;
+
+    if (this.topology === 'hex') {
+      const x = this.startX + col * (this.tileWidth * HEX_COL_STEP + this.gapX);
+      const shift = Math.abs(col % 2) === 1 ? stepY / 2 : 0;
+      return cc.v2(x, this.startY - row * stepY - shift);
+    }
+
     const x = this.startX + col * (this.tileWidth + this.gapX);
-    const y = this.startY - row * (this.tileHeight + this.gapY);
+    const y = this.startY - row * stepY;
     return cc.v2(x, y);
   }
 
-  /** Create a TileView for given color and position. */
+  /** Draw a background frame in a hole cell (if holeSprite is assigned). */
+  private createHoleFrame(row: number, col: number) {
+    if (!this.holeSprite) return;
+
+    const frame = new cc.Node('HoleFrame');
+    const sprite = frame.addComponent(cc.Sprite);
+    sprite.spriteFrame = this.holeSprite;
+    sprite.sizeMode = cc.Sprite.SizeMode.CUSTOM;
+
+    frame.parent = this.node;
+    frame.width = this.tileWidth;
+    frame.height = this.tileHeight;
+    frame.setPosition(this.getTilePosition(row, col));
+    // keep frames under tiles
+    frame.zIndex = -1;
+  }
+
+  /** Ice overlay node for a cell (above tiles, does not move with them). */
+  private createIceOverlay(row: number, col: number, hp: number): cc.Node {
+    const node = new cc.Node('Ice');
+
+    if (this.iceSprite) {
+      const sprite = node.addComponent(cc.Sprite);
+      sprite.spriteFrame = this.iceSprite;
+      sprite.sizeMode = cc.Sprite.SizeMode.CUSTOM;
+    } else {
+      debugLog('BoardFiller', 'WARNING: iceSprite is not assigned');
+      drawIceMarker(
+        node.addComponent(cc.Graphics),
+        this.tileWidth,
+        this.tileHeight
+      );
+    }
+
+    node.parent = this.node;
+    node.width = this.tileWidth;
+    node.height = this.tileHeight;
+    node.setPosition(this.getTilePosition(row, col));
+    node.opacity = iceOpacity(hp);
+    node.zIndex = 1;
+
+    return node;
+  }
+
+  /** Update ice overlays after hits: crack pulse, or melt when gone. */
+  public applyIceHits(hits: IceHit[]) {
+    for (const { pos, hpLeft } of hits) {
+      const row = this.iceViews[pos.row];
+      const node = row ? row[pos.col] : null;
+      if (!node) continue;
+
+      cc.Tween.stopAllByTarget(node);
+
+      if (hpLeft <= 0) {
+        row[pos.col] = null;
+        cc.tween(node)
+          .to(0.2, { opacity: 0, scale: 1.2 })
+          .call(() => node.destroy())
+          .start();
+        continue;
+      }
+
+      cc.tween(node)
+        .to(0.08, { scale: 1.1 })
+        .to(0.1, { scale: 1, opacity: iceOpacity(hpLeft) })
+        .start();
+    }
+  }
+
+  /** Create a TileView for given color (or obstacle) and position. */
   private createTileView(
     row: number,
     col: number,
-    color: TileColor
+    color: TileColor | null,
+    special: TileSpecial = TileSpecial.None
   ): TileView | null {
     if (!this.tilePrefab) {
       debugLog('BoardFiller', 'WARNING: tilePrefab is not set');
@@ -275,8 +454,20 @@ export default class BoardFiller extends cc.Component {
       tile.getComponent(cc.Sprite) || tile.getComponentInChildren(cc.Sprite);
 
     if (sprite) {
-      // 1. Special case for mega bomb
-      if (color === TileColor.MegaBomb) {
+      // 1. Obstacles and specials have their own sprites
+      const specialFrame = this.getSpecialSprite(special);
+      if (special !== TileSpecial.None) {
+        if (specialFrame) {
+          sprite.spriteFrame = specialFrame;
+        } else {
+          debugLog('BoardFiller', `WARNING: no sprite for ${special}`);
+          // colored specials keep their tile under the marker
+          const colorFrame = this.getColorSprite(color);
+          if (colorFrame) sprite.spriteFrame = colorFrame;
+          this.showSpecialMarker(tile, sprite, special);
+        }
+      } else if (color === TileColor.MegaBomb) {
+        // 2. Special case for mega bomb
         if (this.megaBombSprite) {
           sprite.spriteFrame = this.megaBombSprite;
         } else {
@@ -286,10 +477,10 @@ export default class BoardFiller extends cc.Component {
           );
         }
       } else {
-        // 2. Regular colored tiles — by index from TILE_COLORS
-        const idx = TILE_COLORS.indexOf(color);
-        if (idx >= 0 && idx < this.tileSprites.length) {
-          sprite.spriteFrame = this.tileSprites[idx];
+        // 3. Regular colored tiles — by index from TILE_COLORS
+        const colorFrame = this.getColorSprite(color);
+        if (colorFrame) {
+          sprite.spriteFrame = colorFrame;
         } else {
           debugLog('BoardFiller', `WARNING: no sprite for color=${color}`);
         }
@@ -301,7 +492,7 @@ export default class BoardFiller extends cc.Component {
 
     const view = tile.getComponent(TileView);
     if (view) {
-      view.setup(row, col, color);
+      view.setup(row, col, color, special);
       return view;
     }
 
@@ -309,6 +500,61 @@ export default class BoardFiller extends cc.Component {
     return null;
   }
 
+  /** Sprite of a regular tile color (by index from TILE_COLORS), null if none. */
+  private getColorSprite(color: TileColor | null): cc.SpriteFrame | null {
+    const idx = color ? TILE_COLORS.indexOf(color) : -1;
+    return idx >= 0 && idx < this.tileSprites.length
+      ? this.tileSprites[idx]
+      : null;
+  }
+
+  /** Sprite for obstacle / special tiles, null for regular ones. */
+  private getSpecialSprite(special: TileSpecial): cc.SpriteFrame | null {
+    switch (special) {
+      case TileSpecial.Stone:
+        return this.stoneSprite;
+      case TileSpecial.Crate:
+        return this.crateSprite;
+      case TileSpecial.DropItem:
+        return this.dropItemSprite;
+      case TileSpecial.RocketH:
+        return this.rocketHorizontalSprite;
+      case TileSpecial.RocketV:
+        return this.rocketVerticalSprite;
+      case TileSpecial.ColorClear:
+        return this.colorClearSprite;
+      case TileSpecial.MegaBomb:
+        return this.megaBombSprite;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Stand-in for an unassigned obstacle / special sprite:
+   * the tile gets a shape drawn with cc.Graphics, so the board stays readable.
+   */
+  private showSpecialMarker(
+    tile: cc.Node,
+    sprite: cc.Sprite,
+    special: TileSpecial
+  ) {
+    const old = tile.getChildByName('SpecialMarker');
+    if (old) old.destroy();
+
+    // colorless cells show only the marker
+    if (isObstacle(special)) sprite.enabled = false;
+
+    const marker = new cc.Node('SpecialMarker');
+    marker.parent = tile;
+    drawSpecialMarker(
+      marker.addComponent(cc.Graphics),
+      special,
+      tile.width,
+      tile.height
+    );
+  }
+
   /**
    * Remove TileViews for specified cells with "burn" animation.
    */
@@ -396,6 +642,43 @@ export default class BoardFiller extends cc.Component {
     sprite.spriteFrame = this.megaBombSprite;
   }
 
+  /**
+   * Change sprite of an existing tile to a special (rocket, etc.) sprite.
+   */
+  public setSpecialVisual(row: number, col: number, special: TileSpecial) {
+    const view = this.getTileView(row, col);
+    if (!view) {
+      debugLog('BoardFiller', `setSpecialVisual: no view at ${row},${col}`);
+      return;
+    }
+
+    view.special = special;
+
+    const sprite =
+      view.node.getComponent(cc.Sprite) ||
+      view.node.getComponentInChildren(cc.Sprite);
+    const frame = this.getSpecialSprite(special);
+
+    if (!sprite) {
+      debugLog(
+        'BoardFiller',
+        `setSpecialVisual: no Sprite on tile at ${row},${col}`
+      );
+      return;
+    }
+
+    if (!frame) {
+      debugLog(
+        'BoardFiller',
+        `setSpecialVisual: no sprite for ${special} at ${row},${col}`
+      );
+      this.showSpecialMarker(view.node, sprite, special);
+      return;
+    }
+
+    sprite.spriteFrame = frame;
+  }
+
   public playBombShake(
     duration: number = 0.18,
     strength: number = 14,
@@ -469,4 +752,189 @@ export default class BoardFiller extends cc.Component {
       })
       .start();
   }
+
+  /**
+   * Shuffle animation: tiles fly to their new cells (model already shuffled).
+   * Views are re-bound to their new positions.
+   */
+  public playShuffleAnimations(
+    moves: GravityMovement[],
+    onComplete?: () => void
+  ) {
+    // take all moving views first: targets may be other tiles' sources
+    const moving: { view: TileView; to: TilePos }[] = [];
+    for (const move of moves) {
+      const view = this.getTileView(move.from.row, move.from.col);
+      if (view) moving.push({ view, to: move.to });
+    }
+
+    for (const { view, to } of moving) {
+      if (!this.viewGrid[to.row]) {
+        this.viewGrid[to.row] = [];
+      }
+      this.viewGrid[to.row][to.col] = view;
+      view.row = to.row;
+      view.col = to.col;
+    }
+
+    if (moving.length === 0) {
+      if (onComplete) onComplete();
+      return;
+    }
+
+    let pending = moving.length;
+
+    for (const { view, to } of moving) {
+      view.playShuffleMove(this.getTilePosition(to.row, to.col), () => {
+        pending--;
+        if (pending === 0 && onComplete) {
+          onComplete();
+        }
+      });
+    }
+  }
+
+  /** Pulse the given cells as an idle hint. */
+  public showHint(cells: TilePos[]) {
+    for (const { row, col } of cells) {
+      const view = this.getTileView(row, col);
+      if (view) view.playHint();
+    }
+  }
+
+  public hideHint(cells: TilePos[]) {
+    for (const { row, col } of cells) {
+      const view = this.getTileView(row, col);
+      if (view) view.stopHint();
+    }
+  }
+
+  /** Flash stretched along a whole row / column (line rocket). */
+  public playLineFlash(
+    row: number,
+    col: number,
+    horizontal: boolean,
+    duration: number = 0.3
+  ) {
+    if (!this.bombFlashSprite) {
+      return;
+    }
+
+    const flashNode = new cc.Node('LineFlash');
+    const sprite = flashNode.addComponent(cc.Sprite);
+    sprite.spriteFrame = this.bombFlashSprite;
+    sprite.sizeMode = cc.Sprite.SizeMode.CUSTOM;
+
+    flashNode.parent = this.node;
+    flashNode.zIndex = 2;
+
+    const center = this.getTilePosition(row, col);
+    const first = this.getTilePosition(0, 0);
+    const last = this.getTilePosition(this.rows - 1, this.cols - 1);
+
+    if (horizontal) {
+      flashNode.setPosition((first.x + last.x) / 2, center.y);
+      flashNode.width = Math.abs(last.x - first.x) + this.tileWidth * 2;
+      flashNode.height = this.tileHeight * 1.4;
+    } else {
+      flashNode.setPosition(center.x, (first.y + last.y) / 2);
+      flashNode.width = this.tileWidth * 1.4;
+      flashNode.height = Math.abs(last.y - first.y) + this.tileHeight * 2;
+    }
+
+    flashNode.opacity = 0;
+
+    cc.tween(flashNode)
+      .to(duration * 0.3, { opacity: 230 })
+      .to(duration * 0.7, { opacity: 0 })
+      .call(() => {
+        flashNode.destroy();
+      })
+      .start();
+  }
+}
+
+/** Colorless cells that still get a tile view. */
+function isObstacle(special: TileSpecial): boolean {
+  return (
+    special === TileSpecial.Stone ||
+    special === TileSpecial.Crate ||
+    special === TileSpecial.DropItem
+  );
+}
+
+/** Thicker ice is more opaque. */
+function iceOpacity(hp: number): number {
+  return Math.min(255, 110 + hp * 50);
+}
+
+// === FALLBACK MARKERS (NO SPRITE ASSIGNED) ===
+
+/** Shape of an obstacle / special, centered in a `w` x `h` tile. */
+function drawSpecialMarker(
+  g: cc.Graphics,
+  special: TileSpecial,
+  w: number,
+  h: number
+) {
+  const r = Math.min(w, h) * 0.12;
+
+  switch (special) {
+    case TileSpecial.Stone:
+      g.fillColor = cc.color(120, 124, 132);
+      g.roundRect(-w * 0.45, -h * 0.45, w * 0.9, h * 0.9, r);
+      g.fill();
+      g.strokeColor = cc.color(80, 82, 90);
+      g.lineWidth = 3;
+      g.moveTo(-w * 0.2, h * 0.25);
+      g.lineTo(0, 0);
+      g.lineTo(w * 0.1, -h * 0.3);
+      g.stroke();
+      break;
+    case TileSpecial.Crate:
+      g.fillColor = cc.color(176, 122, 66);
+      g.roundRect(-w * 0.45, -h * 0.45, w * 0.9, h * 0.9, r);
+      g.fill();
+      g.strokeColor = cc.color(110, 70, 30);
+      g.lineWidth = 4;
+      g.rect(-w * 0.35, -h * 0.35, w * 0.7, h * 0.7);
+      g.moveTo(-w * 0.35, -h * 0.35);
+      g.lineTo(w * 0.35, h * 0.35);
+      g.moveTo(-w * 0.35, h * 0.35);
+      g.lineTo(w * 0.35, -h * 0.35);
+      g.stroke();
+      break;
+    case TileSpecial.DropItem:
+      g.fillColor = cc.color(245, 196, 48);
+      g.circle(0, 0, Math.min(w, h) * 0.38);
+      g.fill();
+      g.fillColor = cc.color(150, 100, 10);
+      g.moveTo(-w * 0.18, h * 0.05);
+      g.lineTo(w * 0.18, h * 0.05);
+      g.lineTo(0, -h * 0.22);
+      g.close();
+      g.fill();
+      g.rect(-w * 0.06, h * 0.05, w * 0.12, h * 0.18);
+      g.fill();
+      break;
+    case TileSpecial.ColorClear:
+      g.strokeColor = cc.Color.WHITE;
+      g.lineWidth = 4;
+      g.circle(0, 0, Math.min(w, h) * 0.3);
+      g.stroke();
+      g.fillColor = cc.Color.WHITE;
+      g.circle(0, 0, Math.min(w, h) * 0.1);
+      g.fill();
+      break;
+  }
+}
+
+/** Translucent frost over the cell; the node opacity shows the hit points. */
+function drawIceMarker(g: cc.Graphics, w: number, h: number) {
+  g.fillColor = cc.color(170, 220, 255, 140);
+  g.strokeColor = cc.color(235, 250, 255);
+  g.lineWidth = 3;
+  g.roundRect(-w * 0.48, -h * 0.48, w * 0.96, h * 0.96, Math.min(w, h) * 0.12);
+  g.fill();
+  g.stroke();
 }
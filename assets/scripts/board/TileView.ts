@@ -1,4 +1,4 @@
-import { TileColor, TileClickPayload } from '../shared/types';
+import { TileColor, TileClickPayload, TileSpecial } from '../shared/types';
 import EventBus from '../app/EventBus';
 import { AppSignal } from '../app/AppSignals';
 import { debugLog } from '../debug/Debug';
@@ -7,7 +7,7 @@ const { ccclass, property } = cc._decorator;
 
 /**
  * Visual representation of a single tile:
- * - stores its row/col/color
+ * - stores its row/col/color (and obstacle type, if any)
  * - plays selection / spawn / burn / teleport animations
  * - sends click events through EventBus
  */
@@ -18,10 +18,13 @@ export default class TileView extends cc.Component {
 
   row: number = 0;
   col: number = 0;
-  color: TileColor = TileColor.Blue;
+  /** null for obstacle tiles (stone, crate) and drop items. */
+  color: TileColor | null = TileColor.Blue;
+  special: TileSpecial = TileSpecial.None;
 
   private baseScale: number = 1;
   private selected: boolean = false;
+  private hinted: boolean = false;
 
   onLoad() {
     if (!this.button) {
@@ -30,10 +33,16 @@ export default class TileView extends cc.Component {
     this.baseScale = this.node.scale;
   }
 
-  public setup(row: number, col: number, color: TileColor) {
+  public setup(
+    row: number,
+    col: number,
+    color: TileColor | null,
+    special: TileSpecial = TileSpecial.None
+  ) {
     this.row = row;
     this.col = col;
     this.color = color;
+    this.special = special;
 
     this.setSelected(false);
   }
@@ -57,6 +66,31 @@ export default class TileView extends cc.Component {
     }
   }
 
+  /**
+   * Idle hint: endless soft pulse until stopHint() is called.
+   */
+  public playHint() {
+    if (this.hinted) return;
+    this.hinted = true;
+
+    cc.Tween.stopAllByTarget(this.node);
+
+    cc.tween(this.node)
+      .to(0.35, { scale: this.baseScale * 1.12 }, { easing: 'sineInOut' })
+      .to(0.35, { scale: this.baseScale }, { easing: 'sineInOut' })
+      .union()
+      .repeatForever()
+      .start();
+  }
+
+  public stopHint() {
+    if (!this.hinted) return;
+    this.hinted = false;
+
+    cc.Tween.stopAllByTarget(this.node);
+    this.node.scale = this.baseScale;
+  }
+
   /**
    * Spawn animation when tile appears on the board.
    */
@@ -76,6 +110,27 @@ export default class TileView extends cc.Component {
       .start();
   }
 
+  /**
+   * Refill animation: tile slides from `from` (outside the board edge)
+   * to its current position while fading in.
+   */
+  public playSlideIn(from: cc.Vec2, onComplete?: () => void) {
+    const target = cc.v2(this.node.x, this.node.y);
+
+    this.node.setPosition(from);
+    this.node.opacity = 0;
+    this.node.scale = this.baseScale;
+
+    cc.Tween.stopAllByTarget(this.node);
+
+    cc.tween(this.node)
+      .to(0.18, { x: target.x, y: target.y, opacity: 255 })
+      .call(() => {
+        if (onComplete) onComplete();
+      })
+      .start();
+  }
+
   /**
    * "Burn" animation before tile is removed.
    * Actual logical removal from the model is handled by BoardModel.
@@ -112,6 +167,22 @@ export default class TileView extends cc.Component {
       .start();
   }
 
+  /**
+   * Shuffle animation: shrink a bit, fly to the new cell, settle back.
+   */
+  public playShuffleMove(targetPos: cc.Vec2, onComplete?: () => void) {
+    cc.Tween.stopAllByTarget(this.node);
+
+    cc.tween(this.node)
+      .to(0.1, { scale: this.baseScale * 0.85 })
+      .to(0.3, { x: targetPos.x, y: targetPos.y }, { easing: 'sineInOut' })
+      .to(0.1, { scale: this.baseScale })
+      .call(() => {
+        if (onComplete) onComplete();
+      })
+      .start();
+  }
+
   public onClick() {
     debugLog(
       'TileView',
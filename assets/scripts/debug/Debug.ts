@@ -4,7 +4,17 @@ export function setDebug(value: boolean) {
   DEBUG_ENABLED = value;
 }
 
+export function isDebugEnabled(): boolean {
+  return DEBUG_ENABLED;
+}
+
 export function debugLog(tag: string, ...args: any[]) {
   if (!DEBUG_ENABLED) return;
+
+  // `cc` is missing when the rules run headless (plain Node)
+  if (typeof cc === 'undefined') {
+    console.log(`[${tag}]`, ...args);
+    return;
+  }
   cc.log(`[${tag}]`, ...args);
 }
@@ -2,22 +2,86 @@
 
 import { debugLog } from '../debug/Debug';
 import {
+  BoardLayers,
+  GravityDirection,
+  GRAVITY_STEPS,
+  ObstaclePlacement,
   TileColor,
   TILE_COLORS,
   TileGrid,
   TilePos,
   TileSpecial,
 } from '../shared/types';
+import { RandomSource } from '../shared/Random';
+import {
+  areNeighbors,
+  getNeighborPositions,
+  GridTopology,
+} from './GridTopology';
 
 export interface GravityMovement {
   from: TilePos;
   to: TilePos;
-  color: TileColor;
+  /** null for drop items. */
+  color: TileColor | null;
 }
 
 export interface RefillInfo {
   pos: TilePos;
-  color: TileColor;
+  /** null for an obstacle spawned by the refill. */
+  color: TileColor | null;
+  /** Obstacle spawned instead of a tile (crate), else undefined. */
+  special?: TileSpecial;
+}
+
+export interface IceHit {
+  pos: TilePos;
+  /** Hit points left after the hit (0 – ice is gone). */
+  hpLeft: number;
+}
+
+/** Result of a tile-preserving shuffle. */
+export interface ShuffleResult {
+  /** Tiles that changed place (from -> to), for animations. */
+  moves: GravityMovement[];
+  /** Whether the board has a valid group after the shuffle. */
+  playable: boolean;
+}
+
+/** Random permutations tried before forcing a group into place. */
+const SHUFFLE_ATTEMPTS = 20;
+
+/** Obstacle side effects of a removal, used for animations. */
+export interface ObstacleChanges {
+  brokenCrates: TilePos[];
+  iceHits: IceHit[];
+}
+
+/**
+ * How gravity treats masked (hole) cells:
+ * - `pass` – tiles fall through holes to the playable cells below
+ * - `stop` – holes split a column, tiles above a hole rest on it
+ */
+export type HoleGravityRule = 'pass' | 'stop';
+
+/** Copy of everything that changes during play (for undo / redo). */
+export interface BoardSnapshot {
+  grid: TileGrid;
+  specialGrid: TileSpecial[][];
+  iceGrid: number[][];
+  /** Random state, so refills after a restore repeat exactly. */
+  randomState: number;
+}
+
+/** Optional board shape settings (defaults to a full rectangle). */
+export interface BoardShapeOptions {
+  /** mask[row][col] = false marks a hole that never holds tiles. */
+  mask?: boolean[][];
+  holeGravity?: HoleGravityRule;
+  /** Direction tiles fall in (default: down). */
+  gravity?: GravityDirection;
+  /** Cell adjacency (default: square). */
+  topology?: GridTopology;
 }
 
 /**
@@ -29,7 +93,8 @@ export interface RefillInfo {
 export default class BoardModel {
   readonly rows: number;
   readonly cols: number;
-  readonly availableColors: TileColor[];
+  /** Colors of fills and refills (endless levels add more during the run). */
+  availableColors: TileColor[];
 
   /** Main color grid: grid[row][col] = TileColor | null. */
   grid: TileGrid = [];
@@ -40,11 +105,50 @@ export default class BoardModel {
    */
   specialGrid: TileSpecial[][] = [];
 
-  constructor(rows: number, cols: number, colors: TileColor[]) {
+  /**
+   * Ice overlay hit points (same geometry as `grid`), 0 – no ice.
+   * Ice belongs to the cell, not to the tile: tiles fall through it
+   * and every tile removed on top of it takes one hit point.
+   */
+  iceGrid: number[][] = [];
+
+  /**
+   * Playable cells mask (same geometry as `grid`).
+   * false – hole: always empty, skipped by fills, refills and swaps.
+   */
+  readonly mask: boolean[][] = [];
+
+  readonly holeGravity: HoleGravityRule;
+  readonly gravity: GravityDirection;
+  readonly topology: GridTopology;
+
+  /** Random source for every color pick (initial fill and refills). */
+  private readonly random: RandomSource;
+
+  constructor(
+    rows: number,
+    cols: number,
+    colors: TileColor[],
+    random: RandomSource,
+    shape: BoardShapeOptions = {}
+  ) {
     this.rows = rows;
     this.cols = cols;
     this.availableColors =
       colors && colors.length ? colors.slice() : TILE_COLORS.slice();
+    this.random = random;
+    this.holeGravity = shape.holeGravity || 'pass';
+    this.gravity = shape.gravity || 'down';
+    this.topology = shape.topology || 'square';
+
+    for (let row = 0; row < rows; row++) {
+      const maskRow: boolean[] = [];
+      for (let col = 0; col < cols; col++) {
+        const source = shape.mask && shape.mask[row];
+        maskRow.push(source ? source[col] !== false : true);
+      }
+      this.mask.push(maskRow);
+    }
 
     debugLog(
       'BoardModel',
@@ -54,8 +158,13 @@ export default class BoardModel {
 
   // === INITIAL GENERATION ===
 
-  /** Fill the board with random colors from availableColors. */
+  /**
+   * Fill the board with random colors from availableColors.
+   * Obstacles (stones, crates, ice) already on the board stay in place.
+   */
   randomFill() {
+    const oldSpecials = this.specialGrid;
+
     this.grid = [];
     this.specialGrid = [];
 
@@ -64,15 +173,68 @@ export default class BoardModel {
       const specialRow: TileSpecial[] = [];
 
       for (let col = 0; col < this.cols; col++) {
-        const idx = Math.floor(Math.random() * this.availableColors.length);
-        rowArr.push(this.availableColors[idx]);
+        const old = oldSpecials[row] ? oldSpecials[row][col] : null;
+        if (old && (isBlockerSpecial(old) || old === TileSpecial.DropItem)) {
+          rowArr.push(null);
+          specialRow.push(old);
+          continue;
+        }
+
+        rowArr.push(this.mask[row][col] ? this.pickRandomColor() : null);
         // by default all tiles are regular
         specialRow.push(TileSpecial.None);
       }
 
-      this.grid.push(rowArr as TileColor[]);
+      this.grid.push(rowArr);
       this.specialGrid.push(specialRow);
     }
+
+    this.ensureIceGrid();
+  }
+
+  /** Fill the board from a fixed layout (e.g. a designed level start). */
+  fillFromLayout(layout: TileGrid) {
+    this.grid = [];
+    this.specialGrid = [];
+
+    for (let row = 0; row < this.rows; row++) {
+      const rowArr: (TileColor | null)[] = [];
+      const specialRow: TileSpecial[] = [];
+
+      for (let col = 0; col < this.cols; col++) {
+        if (!this.mask[row][col]) {
+          rowArr.push(null);
+        } else {
+          const color = layout[row] ? layout[row][col] : null;
+          rowArr.push(color || this.pickRandomColor());
+        }
+        specialRow.push(TileSpecial.None);
+      }
+
+      this.grid.push(rowArr);
+      this.specialGrid.push(specialRow);
+    }
+
+    this.ensureIceGrid();
+  }
+
+  /**
+   * Put level obstacles on a filled board.
+   * Stones, crates and drop items replace the tile in their cell,
+   * ice is laid under it.
+   */
+  placeObstacles(obstacles: ObstaclePlacement[]) {
+    for (const o of obstacles) {
+      if (!this.isPlayable(o.row, o.col)) continue;
+
+      if (o.type === 'ice') {
+        this.iceGrid[o.row][o.col] = Math.max(1, o.hp || 1);
+        continue;
+      }
+
+      this.grid[o.row][o.col] = null;
+      this.specialGrid[o.row][o.col] = OBSTACLE_SPECIALS[o.type];
+    }
   }
 
   // === INTERNAL UTILS ===
@@ -81,6 +243,41 @@ export default class BoardModel {
     return row >= 0 && row < this.rows && col >= 0 && col < this.cols;
   }
 
+  /** In-bounds neighbors of a cell (4 on square boards, 6 on hex boards). */
+  public getNeighbors(row: number, col: number): TilePos[] {
+    return getNeighborPositions(this.topology, row, col).filter((p) =>
+      this.inBounds(p.row, p.col)
+    );
+  }
+
+  public areNeighbors(a: TilePos, b: TilePos): boolean {
+    return areNeighbors(this.topology, a, b);
+  }
+
+  /** Whether the cell exists on this board shape (in bounds and not a hole). */
+  public isPlayable(row: number, col: number): boolean {
+    return this.inBounds(row, col) && this.mask[row][col];
+  }
+
+  /** Create an empty ice layer on first fill (later fills keep the ice). */
+  private ensureIceGrid() {
+    if (this.iceGrid.length === this.rows) return;
+
+    this.iceGrid = [];
+    for (let row = 0; row < this.rows; row++) {
+      const iceRow: number[] = [];
+      for (let col = 0; col < this.cols; col++) {
+        iceRow.push(0);
+      }
+      this.iceGrid.push(iceRow);
+    }
+  }
+
+  private pickRandomColor(): TileColor {
+    const idx = this.random.nextInt(this.availableColors.length);
+    return this.availableColors[idx];
+  }
+
   // === SPECIAL TILE ACCESS ===
 
   public getSpecial(row: number, col: number): TileSpecial {
@@ -97,16 +294,134 @@ export default class BoardModel {
     return this.getSpecial(row, col) === TileSpecial.MegaBomb;
   }
 
-  // === GROUP SEARCH (4-NEIGHBOR) ===
+  /**
+   * Whether the cell holds a special that is activated by tapping
+   * (mega bomb, rockets, color clear). Such tiles never join color groups.
+   */
+  public hasActiveSpecial(row: number, col: number): boolean {
+    if (!this.inBounds(row, col)) return false;
+    if (this.grid[row][col] === TileColor.MegaBomb) return true;
+
+    const special = this.specialGrid[row][col];
+    return (
+      special === TileSpecial.RocketH ||
+      special === TileSpecial.RocketV ||
+      special === TileSpecial.ColorClear
+    );
+  }
+
+  /** Color used for group matching, null for empty cells and specials. */
+  private groupColorAt(row: number, col: number): TileColor | null {
+    if (!this.inBounds(row, col)) return null;
+    if (this.specialGrid[row][col] !== TileSpecial.None) return null;
+
+    const color = this.grid[row][col];
+    return color === TileColor.MegaBomb ? null : color;
+  }
+
+  // === OBSTACLES ===
+
+  /** Stone or crate: occupies the cell and blocks gravity. */
+  public isBlocker(row: number, col: number): boolean {
+    return isBlockerSpecial(this.getSpecial(row, col));
+  }
+
+  /** Whether the cell holds a tile that can fall or be swapped. */
+  public isMovable(row: number, col: number): boolean {
+    return (
+      this.isPlayable(row, col) &&
+      (this.grid[row][col] !== null || this.isDropItem(row, col)) &&
+      !this.isBlocker(row, col)
+    );
+  }
+
+  public isDropItem(row: number, col: number): boolean {
+    return this.getSpecial(row, col) === TileSpecial.DropItem;
+  }
+
+  /** Whether removal effects (bombs) can destroy something in the cell. */
+  public isDestructible(row: number, col: number): boolean {
+    if (!this.isPlayable(row, col)) return false;
+    return (
+      this.grid[row][col] !== null ||
+      this.getSpecial(row, col) === TileSpecial.Crate
+    );
+  }
+
+  public getIce(row: number, col: number): number {
+    if (!this.inBounds(row, col) || !this.iceGrid[row]) return 0;
+    return this.iceGrid[row][col];
+  }
+
+  /** Number of cells still covered with ice. */
+  public countIce(): number {
+    let count = 0;
+    for (let row = 0; row < this.rows; row++) {
+      for (let col = 0; col < this.cols; col++) {
+        if (this.getIce(row, col) > 0) count++;
+      }
+    }
+    return count;
+  }
+
+  // === DROP ITEMS ===
+
+  /** Number of drop items still on the board. */
+  public countDropItems(): number {
+    let count = 0;
+    for (let row = 0; row < this.rows; row++) {
+      for (let col = 0; col < this.cols; col++) {
+        if (this.isDropItem(row, col)) count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Drop items that can't fall any further: no playable cell left
+   * between them and the board edge in the gravity direction.
+   */
+  public findLandedDropItems(): TilePos[] {
+    const step = GRAVITY_STEPS[this.gravity];
+    const landed: TilePos[] = [];
+
+    for (let row = 0; row < this.rows; row++) {
+      for (let col = 0; col < this.cols; col++) {
+        if (!this.isDropItem(row, col)) continue;
+
+        let r = row + step.row;
+        let c = col + step.col;
+        while (this.inBounds(r, c) && !this.mask[r][c]) {
+          r += step.row;
+          c += step.col;
+        }
+
+        if (!this.inBounds(r, c)) landed.push({ row, col });
+      }
+    }
+
+    return landed;
+  }
+
+  /** Take collected drop items off the board (the cells become empty). */
+  public removeDropItems(cells: TilePos[]) {
+    for (const { row, col } of cells) {
+      if (this.isDropItem(row, col)) {
+        this.specialGrid[row][col] = TileSpecial.None;
+      }
+    }
+  }
+
+  // === GROUP SEARCH (4 / 6 NEIGHBORS) ===
 
   public findGroup(startRow: number, startCol: number): TilePos[] {
     if (!this.inBounds(startRow, startCol)) {
       return [];
     }
 
-    const startColor = this.grid[startRow][startCol];
+    const startColor = this.groupColorAt(startRow, startCol);
     if (!startColor) {
-      // clicked an empty cell
+      // clicked an empty cell (or a special tile)
       debugLog(
         'BoardModel',
         `findGroup from (${startRow},${startCol}) -> empty cell`
@@ -132,16 +447,13 @@ export default class BoardModel {
 
       visited[row][col] = true;
 
-      const color = this.grid[row][col];
+      const color = this.groupColorAt(row, col);
       if (color !== startColor) continue;
 
       group.push({ row, col });
 
-      // 4-neighbors
-      stack.push({ row: row - 1, col }); // up
-      stack.push({ row: row + 1, col }); // down
-      stack.push({ row, col: col - 1 }); // left
-      stack.push({ row, col: col + 1 }); // right
+      // 4-neighbors (square) or 6-neighbors (hex)
+      stack.push(...this.getNeighbors(row, col));
     }
 
     debugLog(
@@ -151,79 +463,216 @@ export default class BoardModel {
     return group;
   }
 
+  /**
+   * All color groups of at least minGroupSize (each cell belongs to one group).
+   * Used by the hint system to look for the best move.
+   */
+  public findAllGroups(minGroupSize: number): TilePos[][] {
+    const seen: boolean[][] = [];
+    for (let r = 0; r < this.rows; r++) {
+      seen[r] = [];
+    }
+
+    const groups: TilePos[][] = [];
+
+    for (let row = 0; row < this.rows; row++) {
+      for (let col = 0; col < this.cols; col++) {
+        if (seen[row][col] || !this.groupColorAt(row, col)) continue;
+
+        const group = this.findGroup(row, col);
+        for (const p of group) {
+          seen[p.row][p.col] = true;
+        }
+
+        if (group.length >= minGroupSize) {
+          groups.push(group);
+        }
+      }
+    }
+
+    return groups;
+  }
+
+  /** All regular tiles of the given color (specials are not included). */
+  public findAllOfColor(color: TileColor): TilePos[] {
+    const cells: TilePos[] = [];
+
+    for (let row = 0; row < this.rows; row++) {
+      for (let col = 0; col < this.cols; col++) {
+        if (this.groupColorAt(row, col) === color) {
+          cells.push({ row, col });
+        }
+      }
+    }
+
+    return cells;
+  }
+
   // === GROUP REMOVAL ===
 
-  public removeGroup(group: TilePos[]) {
-    if (!group || group.length === 0) return;
+  /**
+   * Remove tiles at the given cells and apply obstacle side effects:
+   * - stones are never removed
+   * - crates in the list or next to a removed tile break
+   * - ice under a removed tile loses one hit point
+   */
+  public removeGroup(group: TilePos[]): ObstacleChanges {
+    const changes: ObstacleChanges = { brokenCrates: [], iceHits: [] };
+    if (!group || group.length === 0) return changes;
 
     debugLog('BoardModel', `removeGroup size=${group.length}`);
 
     const g = this.grid as (TileColor | null)[][];
     const s = this.specialGrid;
+    const neighbors: TilePos[] = [];
 
     for (const { row, col } of group) {
       if (!this.inBounds(row, col)) continue;
+
+      const special = s[row][col];
+      if (special === TileSpecial.Stone) continue;
+
+      if (special === TileSpecial.Crate) {
+        this.breakCrate(row, col, changes);
+        continue;
+      }
+
+      if (g[row][col] === null) continue;
+
       g[row][col] = null;
       s[row][col] = TileSpecial.None;
+
+      if (this.iceGrid[row] && this.iceGrid[row][col] > 0) {
+        this.iceGrid[row][col]--;
+        changes.iceHits.push({
+          pos: { row, col },
+          hpLeft: this.iceGrid[row][col],
+        });
+      }
+
+      neighbors.push(...this.getNeighbors(row, col));
     }
+
+    for (const { row, col } of neighbors) {
+      if (this.getSpecial(row, col) === TileSpecial.Crate) {
+        this.breakCrate(row, col, changes);
+      }
+    }
+
+    return changes;
   }
 
-  // === GRAVITY (DOWN) ===
+  private breakCrate(row: number, col: number, changes: ObstacleChanges) {
+    this.specialGrid[row][col] = TileSpecial.None;
+    changes.brokenCrates.push({ row, col });
+  }
+
+  // === GRAVITY ===
 
   /**
-   * Apply gravity: all non-empty tiles "fall" down in their columns.
+   * Apply gravity: all non-empty tiles "fall" in the board gravity direction
+   * (down by default) along their column or row.
+   * Holes are skipped or act as a floor depending on `holeGravity`,
+   * stones and crates never move and always act as a floor.
    * Returns a list of movements that can be used for animations.
    */
   public applyGravity(): GravityMovement[] {
-    debugLog('BoardModel', 'applyGravity');
+    debugLog('BoardModel', `applyGravity ${this.gravity}`);
 
-    const g = this.grid as (TileColor | null)[][];
-    const s = this.specialGrid;
     const movements: GravityMovement[] = [];
 
-    for (let col = 0; col < this.cols; col++) {
-      let writeRow = this.rows - 1;
+    for (const cells of this.getGravityLines()) {
+      // runs of playable cells from the sink edge, each run compacts independently
+      let line: TilePos[] = [];
 
-      // walk bottom-up, compact non-empty cells
-      for (let row = this.rows - 1; row >= 0; row--) {
-        const color = g[row][col];
-        if (color !== null) {
-          if (writeRow !== row) {
-            const spec = s[row][col];
+      for (const { row, col } of cells) {
+        const blocked = this.isBlocker(row, col);
 
-            g[writeRow][col] = color;
-            g[row][col] = null;
+        if (this.mask[row][col] && !blocked) {
+          line.push({ row, col });
+        } else if (blocked || this.holeGravity === 'stop') {
+          // stones and crates always act as a floor
+          this.compactLine(line, movements);
+          line = [];
+        }
+      }
 
-            s[writeRow][col] = spec;
-            s[row][col] = TileSpecial.None;
+      this.compactLine(line, movements);
+    }
 
-            movements.push({
-              from: { row, col },
-              to: { row: writeRow, col },
-              color,
-            });
-          }
-          writeRow--;
-        }
+    return movements;
+  }
+
+  /**
+   * Whole columns (vertical gravity) or rows (horizontal gravity),
+   * each ordered from the edge tiles fall towards to the opposite edge.
+   */
+  private getGravityLines(): TilePos[][] {
+    const lines: TilePos[][] = [];
+    const vertical = this.gravity === 'down' || this.gravity === 'up';
+    const outer = vertical ? this.cols : this.rows;
+    const inner = vertical ? this.rows : this.cols;
+    const fromEnd = this.gravity === 'down' || this.gravity === 'right';
+
+    for (let o = 0; o < outer; o++) {
+      const line: TilePos[] = [];
+
+      for (let i = 0; i < inner; i++) {
+        const idx = fromEnd ? inner - 1 - i : i;
+        line.push(vertical ? { row: idx, col: o } : { row: o, col: idx });
       }
 
-      // everything above writeRow becomes empty (null + no special)
-      for (let row = writeRow; row >= 0; row--) {
-        g[row][col] = null;
-        s[row][col] = TileSpecial.None;
+      lines.push(line);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Compact tiles of a single gravity line towards its first cell.
+   * `line` is ordered from the sink edge to the opposite edge.
+   */
+  private compactLine(line: TilePos[], movements: GravityMovement[]) {
+    const g = this.grid as (TileColor | null)[][];
+    const s = this.specialGrid;
+    let write = 0;
+
+    for (let read = 0; read < line.length; read++) {
+      const from = line[read];
+      const color = g[from.row][from.col];
+      if (color === null && s[from.row][from.col] !== TileSpecial.DropItem) {
+        continue;
+      }
+
+      const to = line[write];
+      if (write !== read) {
+        g[to.row][to.col] = color;
+        g[from.row][from.col] = null;
+
+        s[to.row][to.col] = s[from.row][from.col];
+        s[from.row][from.col] = TileSpecial.None;
+
+        movements.push({ from, to, color });
       }
+      write++;
     }
 
-    return movements;
+    // everything above the last written cell becomes empty (null + no special)
+    for (let i = write; i < line.length; i++) {
+      const { row, col } = line[i];
+      g[row][col] = null;
+      s[row][col] = TileSpecial.None;
+    }
   }
 
   // === REFILL EMPTY CELLS ===
 
   /**
-   * Fill empty cells with new random tiles.
+   * Fill empty cells with new random tiles; with `crateChance` > 0
+   * some of them become crates instead.
    * Returns list of created tiles (position + color) for animations.
    */
-  public refillEmptyCells(): RefillInfo[] {
+  public refillEmptyCells(crateChance: number = 0): RefillInfo[] {
     debugLog('BoardModel', 'refillEmptyCells');
 
     const g = this.grid as (TileColor | null)[][];
@@ -232,9 +681,23 @@ export default class BoardModel {
 
     for (let row = 0; row < this.rows; row++) {
       for (let col = 0; col < this.cols; col++) {
-        if (g[row][col] === null) {
-          const idx = Math.floor(Math.random() * this.availableColors.length);
-          const color = this.availableColors[idx];
+        if (
+          g[row][col] === null &&
+          s[row][col] === TileSpecial.None &&
+          this.mask[row][col]
+        ) {
+          // no extra random draws without crates, so other levels refill as before
+          if (crateChance > 0 && this.random.next() < crateChance) {
+            s[row][col] = TileSpecial.Crate;
+            refilled.push({
+              pos: { row, col },
+              color: null,
+              special: TileSpecial.Crate,
+            });
+            continue;
+          }
+
+          const color = this.pickRandomColor();
           g[row][col] = color;
           s[row][col] = TileSpecial.None;
 
@@ -253,26 +716,170 @@ export default class BoardModel {
 
   /**
    * Check if there is at least one valid move:
-   * for minGroupSize >= 2 we only need to check adjacent equal tiles.
+   * - any special tile can always be tapped
+   * - otherwise there must be a group of at least minGroupSize.
    */
   public hasAnyMoves(minGroupSize: number): boolean {
+    for (let row = 0; row < this.rows; row++) {
+      for (let col = 0; col < this.cols; col++) {
+        if (this.hasActiveSpecial(row, col)) return true;
+      }
+    }
+
+    return this.hasAnyGroup(minGroupSize);
+  }
+
+  /**
+   * Check if there is a removable color group of at least minGroupSize.
+   * For minGroupSize <= 2 we only need to check adjacent equal tiles.
+   */
+  public hasAnyGroup(minGroupSize: number): boolean {
     // for minGroupSize = 1 board is always "playable"
     if (minGroupSize <= 1) return true;
 
     for (let row = 0; row < this.rows; row++) {
       for (let col = 0; col < this.cols; col++) {
-        const color = this.grid[row][col];
+        const color = this.groupColorAt(row, col);
         if (!color) continue;
 
-        // down
-        if (this.inBounds(row + 1, col) && this.grid[row + 1][col] === color) {
-          return true;
+        if (minGroupSize > 2) {
+          if (this.findGroup(row, col).length >= minGroupSize) return true;
+          continue;
+        }
+
+        // any neighbor (4 on square boards, 6 on hex boards)
+        for (const n of this.getNeighbors(row, col)) {
+          if (this.groupColorAt(n.row, n.col) === color) {
+            return true;
+          }
+        }
+      }
+    }
+
+    return false;
+  }
+
+  // === SHUFFLE (NO MOVES) ===
+
+  /**
+   * Permute the existing regular tiles between their cells.
+   * Specials, obstacles, ice and holes stay in place.
+   * Tries random permutations first; if none of them has a group,
+   * moves tiles of one color into a connected area to force a group.
+   */
+  public shuffle(minGroupSize: number): ShuffleResult {
+    const g = this.grid as (TileColor | null)[][];
+
+    const cells: TilePos[] = [];
+    for (let row = 0; row < this.rows; row++) {
+      for (let col = 0; col < this.cols; col++) {
+        if (this.groupColorAt(row, col) && this.isMovable(row, col)) {
+          cells.push({ row, col });
+        }
+      }
+    }
+
+    const colors = cells.map((p) => g[p.row][p.col] as TileColor);
+    // perm[i] – index of the tile that ends up in cells[i]
+    let perm: number[] = cells.map((_, i) => i);
+
+    const apply = () => {
+      cells.forEach((p, i) => (g[p.row][p.col] = colors[perm[i]]));
+    };
+
+    let playable = false;
+
+    for (let attempt = 0; attempt < SHUFFLE_ATTEMPTS && !playable; attempt++) {
+      perm = this.shuffledIndices(cells.length);
+      apply();
+      playable = this.hasAnyGroup(minGroupSize);
+    }
+
+    if (!playable) {
+      playable = this.forceGroup(cells, colors, perm, minGroupSize);
+      apply();
+    }
+
+    const moves: GravityMovement[] = [];
+    cells.forEach((to, i) => {
+      if (perm[i] === i) return;
+      moves.push({ from: cells[perm[i]], to, color: colors[perm[i]] });
+    });
+
+    debugLog(
+      'BoardModel',
+      `shuffle tiles=${cells.length}, moved=${moves.length}, playable=${playable}`
+    );
+
+    return { moves, playable };
+  }
+
+  private shuffledIndices(count: number): number[] {
+    const result: number[] = [];
+    for (let i = 0; i < count; i++) result.push(i);
+
+    // Fisher–Yates
+    for (let i = count - 1; i > 0; i--) {
+      const j = this.random.nextInt(i + 1);
+      const tmp = result[i];
+      result[i] = result[j];
+      result[j] = tmp;
+    }
+
+    return result;
+  }
+
+  /**
+   * Rearrange `perm` so that a connected area of shuffled cells gets
+   * minGroupSize tiles of the same color. Returns false if impossible
+   * (no color has enough tiles or no connected area is big enough).
+   */
+  private forceGroup(
+    cells: TilePos[],
+    colors: TileColor[],
+    perm: number[],
+    minGroupSize: number
+  ): boolean {
+    const indexByKey = new Map<string, number>();
+    cells.forEach((p, i) => indexByKey.set(`${p.row}:${p.col}`, i));
+
+    for (const color of this.availableColors) {
+      const tiles = colors.filter((c) => c === color).length;
+      if (tiles < minGroupSize) continue;
+
+      for (let start = 0; start < cells.length; start++) {
+        // connected area of shuffled cells (BFS through neighbors)
+        const area: number[] = [start];
+        const inArea = new Set<number>(area);
+
+        for (let k = 0; k < area.length && area.length < minGroupSize; k++) {
+          const p = cells[area[k]];
+          for (const n of this.getNeighbors(p.row, p.col)) {
+            const idx = indexByKey.get(`${n.row}:${n.col}`);
+            if (idx === undefined || inArea.has(idx)) continue;
+            if (area.length >= minGroupSize) break;
+            area.push(idx);
+            inArea.add(idx);
+          }
         }
 
-        // right
-        if (this.inBounds(row, col + 1) && this.grid[row][col + 1] === color) {
-          return true;
+        if (area.length < minGroupSize) continue;
+
+        // swap tiles of `color` from outside into the area
+        for (const target of area) {
+          if (colors[perm[target]] === color) continue;
+
+          for (let other = 0; other < cells.length; other++) {
+            if (inArea.has(other) || colors[perm[other]] !== color) continue;
+
+            const tmp = perm[target];
+            perm[target] = perm[other];
+            perm[other] = tmp;
+            break;
+          }
         }
+
+        return true;
       }
     }
 
@@ -282,7 +889,9 @@ export default class BoardModel {
   // === TILE SWAP (TELEPORT BOOSTER) ===
 
   public swapTiles(a: TilePos, b: TilePos) {
-    if (!this.inBounds(a.row, a.col) || !this.inBounds(b.row, b.col)) return;
+    if (!this.isMovable(a.row, a.col) || !this.isMovable(b.row, b.col)) {
+      return;
+    }
 
     const g = this.grid as (TileColor | null)[][];
     const s = this.specialGrid;
@@ -320,6 +929,34 @@ export default class BoardModel {
     return removed;
   }
 
+  /** Layers the view needs to render this board (holes, specials, ice). */
+  public getLayers(): BoardLayers {
+    return {
+      mask: this.mask,
+      specials: this.specialGrid,
+      ice: this.iceGrid,
+    };
+  }
+
+  // === SNAPSHOTS (UNDO / REDO) ===
+
+  public createSnapshot(): BoardSnapshot {
+    return {
+      grid: this.grid.map((row) => row.slice()),
+      specialGrid: this.specialGrid.map((row) => row.slice()),
+      iceGrid: this.iceGrid.map((row) => row.slice()),
+      randomState: this.random.getState(),
+    };
+  }
+
+  /** Restore tiles, specials, ice and random state (shape never changes). */
+  public restoreSnapshot(snapshot: BoardSnapshot) {
+    this.grid = snapshot.grid.map((row) => row.slice());
+    this.specialGrid = snapshot.specialGrid.map((row) => row.slice());
+    this.iceGrid = snapshot.iceGrid.map((row) => row.slice());
+    this.random.setState(snapshot.randomState);
+  }
+
   /**
    * Count how many non-empty tiles are currently on the board.
    * Useful to award score for "clear the whole board" effects.
@@ -337,3 +974,13 @@ export default class BoardModel {
     return count;
   }
 }
+
+const OBSTACLE_SPECIALS: { [type: string]: TileSpecial } = {
+  stone: TileSpecial.Stone,
+  crate: TileSpecial.Crate,
+  drop: TileSpecial.DropItem,
+};
+
+function isBlockerSpecial(special: TileSpecial): boolean {
+  return special === TileSpecial.Stone || special === TileSpecial.Crate;
+}
@@ -0,0 +1,232 @@
+// assets/scripts/domain/BoardNotation.ts
+
+import { TileColor, TILE_COLORS, TileGrid, TileSpecial } from '../shared/types';
+import { RandomSource } from '../shared/Random';
+import BoardModel, { BoardShapeOptions } from './BoardModel';
+
+/**
+ * Text notation of a board, one row per line (or separated by '/'):
+ *
+ *   G B P R Y  regular tiles (green, blue, purple, red, yellow)
+ *   M          mega bomb
+ *   S C        stone, crate
+ *   D          drop item
+ *   .          empty cell
+ *   #          hole (not part of the board)
+ *
+ * A color may be followed by a special: '-' horizontal rocket,
+ * '|' vertical rocket, '*' color clear. A trailing digit 1-9 is ice hp.
+ * Spaces are ignored, e.g. "RRG- / B2.#".
+ */
+const COLOR_CHARS: { [ch: string]: TileColor } = {
+  G: TileColor.Green,
+  B: TileColor.Blue,
+  P: TileColor.Purple,
+  R: TileColor.Red,
+  Y: TileColor.Yellow,
+  M: TileColor.MegaBomb,
+};
+
+const SPECIAL_CHARS: { [ch: string]: TileSpecial } = {
+  '-': TileSpecial.RocketH,
+  '|': TileSpecial.RocketV,
+  '*': TileSpecial.ColorClear,
+};
+
+// colorless cells
+const OBSTACLE_CHARS: { [ch: string]: TileSpecial } = {
+  S: TileSpecial.Stone,
+  C: TileSpecial.Crate,
+  D: TileSpecial.DropItem,
+};
+
+const EMPTY_CHAR = '.';
+const HOLE_CHAR = '#';
+
+/** Board layers decoded from notation. */
+export interface ParsedBoard {
+  rows: number;
+  cols: number;
+  grid: TileGrid;
+  specials: TileSpecial[][];
+  ice: number[][];
+  /** false for '#' cells. */
+  mask: boolean[][];
+}
+
+/** Thrown when notation text can't be parsed. */
+export class BoardNotationError extends Error {
+  constructor(message: string) {
+    super(`Invalid board notation: ${message}`);
+    // keep instanceof working with ES5 target
+    Object.setPrototypeOf(this, BoardNotationError.prototype);
+
+    this.name = 'BoardNotationError';
+  }
+}
+
+export function parseBoard(text: string): ParsedBoard {
+  const lines = text
+    .split(/[\n\/]/)
+    .map((line) => line.replace(/\s+/g, ''))
+    .filter((line) => line.length > 0);
+
+  if (lines.length === 0) {
+    throw new BoardNotationError('no rows');
+  }
+
+  const parsed: ParsedBoard = {
+    rows: lines.length,
+    cols: 0,
+    grid: [],
+    specials: [],
+    ice: [],
+    mask: [],
+  };
+
+  lines.forEach((line, row) => {
+    parseRow(line, row, parsed);
+
+    const width = parsed.grid[row].length;
+    if (row === 0) {
+      parsed.cols = width;
+    } else if (width !== parsed.cols) {
+      throw new BoardNotationError(
+        `row ${row} has ${width} cells, expected ${parsed.cols}`
+      );
+    }
+  });
+
+  return parsed;
+}
+
+/**
+ * Build a board from notation. Holes from the text are merged into
+ * `shape.mask`; `random` and `colors` are only used for later refills.
+ */
+export function createBoardFromNotation(
+  text: string,
+  random: RandomSource,
+  shape: BoardShapeOptions = {},
+  colors: TileColor[] = TILE_COLORS
+): BoardModel {
+  const parsed = parseBoard(text);
+
+  const mask = parsed.mask.map((maskRow, row) =>
+    maskRow.map(
+      (playable, col) =>
+        playable && !(shape.mask && shape.mask[row] && !shape.mask[row][col])
+    )
+  );
+
+  const board = new BoardModel(parsed.rows, parsed.cols, colors, random, {
+    ...shape,
+    mask,
+  });
+
+  board.grid = parsed.grid;
+  board.specialGrid = parsed.specials;
+  board.iceGrid = parsed.ice;
+
+  return board;
+}
+
+/** Board as notation text, one line per row (for logs and fixtures). */
+export function formatBoard(board: BoardModel): string {
+  const cells: string[][] = [];
+  let width = 1;
+
+  for (let row = 0; row < board.rows; row++) {
+    const line: string[] = [];
+    for (let col = 0; col < board.cols; col++) {
+      const cell = formatCell(board, row, col);
+      width = Math.max(width, cell.length);
+      line.push(cell);
+    }
+    cells.push(line);
+  }
+
+  // multi-char cells (specials, ice) are padded into aligned columns
+  return cells
+    .map((line) =>
+      width === 1 ? line.join('') : line.map((c) => pad(c, width)).join(' ')
+    )
+    .join('\n')
+    .replace(/ +$/gm, '');
+}
+
+// === INTERNAL ===
+
+function parseRow(line: string, row: number, parsed: ParsedBoard) {
+  const colors: (TileColor | null)[] = [];
+  const specials: TileSpecial[] = [];
+  const ice: number[] = [];
+  const mask: boolean[] = [];
+
+  let i = 0;
+  while (i < line.length) {
+    const ch = line[i++];
+    let color: TileColor | null = null;
+    let special = TileSpecial.None;
+    let playable = true;
+
+    if (COLOR_CHARS[ch]) {
+      color = COLOR_CHARS[ch];
+      // rockets / color clear keep the tile color
+      if (SPECIAL_CHARS[line[i]] && color !== TileColor.MegaBomb) {
+        special = SPECIAL_CHARS[line[i++]];
+      }
+    } else if (OBSTACLE_CHARS[ch]) {
+      special = OBSTACLE_CHARS[ch];
+    } else if (ch === HOLE_CHAR) {
+      playable = false;
+    } else if (ch !== EMPTY_CHAR) {
+      throw new BoardNotationError(`unknown symbol "${ch}" in row ${row}`);
+    }
+
+    let hp = 0;
+    if (/[1-9]/.test(line[i] || '') && playable) {
+      hp = parseInt(line[i++], 10);
+    }
+
+    colors.push(color);
+    specials.push(special);
+    ice.push(hp);
+    mask.push(playable);
+  }
+
+  parsed.grid.push(colors);
+  parsed.specials.push(specials);
+  parsed.ice.push(ice);
+  parsed.mask.push(mask);
+}
+
+function formatCell(board: BoardModel, row: number, col: number): string {
+  if (!board.mask[row][col]) return HOLE_CHAR;
+
+  const color = board.grid[row][col];
+  const special = board.getSpecial(row, col);
+
+  let cell = EMPTY_CHAR;
+  if (color) {
+    cell =
+      findKey(COLOR_CHARS, color) + (findKey(SPECIAL_CHARS, special) || '');
+  } else if (findKey(OBSTACLE_CHARS, special)) {
+    cell = findKey(OBSTACLE_CHARS, special);
+  }
+
+  const hp = board.getIce(row, col);
+  return hp > 0 ? cell + Math.min(hp, 9) : cell;
+}
+
+function findKey<T>(map: { [ch: string]: T }, value: T): string {
+  for (const key in map) {
+    if (map[key] === value) return key;
+  }
+  return '';
+}
+
+function pad(cell: string, width: number): string {
+  while (cell.length < width) cell += ' ';
+  return cell;
+}
@@ -0,0 +1,60 @@
+// assets/scripts/domain/GridTopology.ts
+
+import { TilePos } from '../shared/types';
+
+/**
+ * Cell adjacency of the board:
+ * - `square` – 4 neighbors (up, down, left, right)
+ * - `hex` – 6 neighbors, flat-top hexes in "odd-q" layout
+ *   (columns stay straight, odd columns are shifted down by half a cell)
+ */
+export type GridTopology = 'square' | 'hex';
+
+const SQUARE_OFFSETS: TilePos[] = [
+  { row: -1, col: 0 },
+  { row: 1, col: 0 },
+  { row: 0, col: -1 },
+  { row: 0, col: 1 },
+];
+
+const HEX_EVEN_COL_OFFSETS: TilePos[] = [
+  { row: -1, col: 0 },
+  { row: 1, col: 0 },
+  { row: -1, col: -1 },
+  { row: 0, col: -1 },
+  { row: -1, col: 1 },
+  { row: 0, col: 1 },
+];
+
+const HEX_ODD_COL_OFFSETS: TilePos[] = [
+  { row: -1, col: 0 },
+  { row: 1, col: 0 },
+  { row: 0, col: -1 },
+  { row: 1, col: -1 },
+  { row: 0, col: 1 },
+  { row: 1, col: 1 },
+];
+
+/** Neighbor positions of a cell (may be out of board bounds). */
+export function getNeighborPositions(
+  topology: GridTopology,
+  row: number,
+  col: number
+): TilePos[] {
+  let offsets = SQUARE_OFFSETS;
+  if (topology === 'hex') {
+    offsets = col % 2 === 0 ? HEX_EVEN_COL_OFFSETS : HEX_ODD_COL_OFFSETS;
+  }
+
+  return offsets.map((o) => ({ row: row + o.row, col: col + o.col }));
+}
+
+export function areNeighbors(
+  topology: GridTopology,
+  a: TilePos,
+  b: TilePos
+): boolean {
+  return getNeighborPositions(topology, a.row, a.col).some(
+    (p) => p.row === b.row && p.col === b.col
+  );
+}
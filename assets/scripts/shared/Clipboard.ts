@@ -0,0 +1,42 @@
+// assets/scripts/shared/Clipboard.ts
+
+/**
+ * Copy text to the system clipboard (web builds).
+ * `done` gets false when the platform or the browser refuses.
+ */
+export function copyText(text: string, done: (ok: boolean) => void) {
+  if (typeof navigator === 'undefined' || typeof document === 'undefined') {
+    done(false);
+    return;
+  }
+
+  if (navigator.clipboard && navigator.clipboard.writeText) {
+    navigator.clipboard.writeText(text).then(
+      () => done(true),
+      () => done(copyWithTextArea(text))
+    );
+    return;
+  }
+
+  done(copyWithTextArea(text));
+}
+
+/** Fallback for browsers without the async clipboard API. */
+function copyWithTextArea(text: string): boolean {
+  const area = document.createElement('textarea');
+  area.value = text;
+  area.style.position = 'fixed';
+  area.style.opacity = '0';
+  document.body.appendChild(area);
+  area.select();
+
+  let ok = false;
+  try {
+    ok = document.execCommand('copy');
+  } catch (e) {
+    ok = false;
+  }
+
+  document.body.removeChild(area);
+  return ok;
+}
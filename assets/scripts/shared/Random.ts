@@ -0,0 +1,58 @@
+/**
+ * Source of random numbers for gameplay logic.
+ * Injected into the model so boards can be reproduced from a seed.
+ */
+export interface RandomSource {
+  /** Float in range [0, 1). */
+  next(): number;
+
+  /** Integer in range [0, max). */
+  nextInt(max: number): number;
+
+  /** Internal position in the sequence (for snapshots / undo). */
+  getState(): number;
+  setState(state: number): void;
+}
+
+/** Generate a fresh 32-bit seed (non-deterministic). */
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Deterministic PRNG (mulberry32):
+ * - same seed always yields the same sequence
+ * - fast and small, good enough for tile generation
+ */
+export default class SeededRandom implements RandomSource {
+  readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  public nextInt(max: number): number {
+    if (max <= 0) return 0;
+    return Math.floor(this.next() * max);
+  }
+
+  public getState(): number {
+    return this.state;
+  }
+
+  public setState(state: number) {
+    this.state = state >>> 0;
+  }
+}
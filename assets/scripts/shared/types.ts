@@ -25,6 +25,39 @@ export const TILE_COLORS: TileColor[] = [
 export enum TileSpecial {
   None = 'none',
   MegaBomb = 'mega_bomb',
+
+  // Line rockets: clear the whole row / column when tapped
+  RocketH = 'rocket_h',
+  RocketV = 'rocket_v',
+
+  /** Clears every tile of the color it was created from. */
+  ColorClear = 'color_clear',
+
+  // Obstacles: occupy a cell without a color, never fall
+  /** Immovable and indestructible, blocks gravity. */
+  Stone = 'stone',
+  /** Immovable, breaks when an adjacent group is removed (or by bombs). */
+  Crate = 'crate',
+
+  /**
+   * Level item without a color: falls with gravity, can be teleported,
+   * is never destroyed and leaves the board when it reaches the bottom edge.
+   */
+  DropItem = 'drop_item',
+}
+
+/** Obstacle types that can be placed by level files. */
+export type ObstacleType = 'stone' | 'crate' | 'ice' | 'drop';
+
+/**
+ * Obstacle placement on a starting board.
+ * `hp` is used by ice only (number of matches needed to clear it).
+ */
+export interface ObstaclePlacement {
+  row: number;
+  col: number;
+  type: ObstacleType;
+  hp?: number;
 }
 
 /**
@@ -36,11 +69,32 @@ export type TileGrid = (TileColor | null)[][];
 export interface TileClickPayload {
   row: number;
   col: number;
-  color: TileColor;
+  /** null for obstacle tiles (stone, crate) and drop items. */
+  color: TileColor | null;
 }
 
 export type TilePos = { row: number; col: number };
 
+/** Direction tiles fall in; refills enter from the opposite edge. */
+export type GravityDirection = 'down' | 'up' | 'left' | 'right';
+
+/** Row / col step of one cell in the gravity direction. */
+export const GRAVITY_STEPS: { [dir in GravityDirection]: TilePos } = {
+  down: { row: 1, col: 0 },
+  up: { row: -1, col: 0 },
+  left: { row: 0, col: -1 },
+  right: { row: 0, col: 1 },
+};
+
+/** Extra board layers the view needs besides colors. */
+export interface BoardLayers {
+  /** false for hole cells. */
+  mask?: boolean[][];
+  specials?: TileSpecial[][];
+  /** Ice hit points per cell, 0 – no ice. */
+  ice?: number[][];
+}
+
 /**
  * Tile data model for view layer.
  * `special` is optional so old code that doesn't use it still works.
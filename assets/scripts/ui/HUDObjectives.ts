@@ -0,0 +1,57 @@
+const { ccclass, property } = cc._decorator;
+import { GameStateData } from '../app/GameState';
+import {
+  describeObjective,
+  isObjectiveComplete,
+  ObjectiveProgress,
+} from '../app/Objectives';
+
+/**
+ * Objectives panel next to HUDScore:
+ * - one label per level objective ("red 12/20", "ice 3/10", ...)
+ * - completed objectives are tinted, unused labels are hidden
+ */
+@ccclass
+export default class HUDObjectives extends cc.Component {
+  // === LABEL REFERENCES ===
+
+  @property([cc.Label])
+  objectiveLabels: cc.Label[] = [];
+
+  // === COLORS ===
+
+  @property(cc.Color)
+  activeColor: cc.Color = cc.Color.WHITE;
+
+  @property(cc.Color)
+  completedColor: cc.Color = cc.Color.GREEN;
+
+  private objectives: ObjectiveProgress[] = [];
+
+  // === PUBLIC API ===
+
+  /** Main entry: apply objectives of the current GameState. */
+  public applyGameState(state: GameStateData) {
+    if (!state) return;
+
+    this.objectives = state.objectives;
+    this.refreshLabels();
+  }
+
+  // === INTERNAL HELPERS ===
+
+  private refreshLabels() {
+    this.objectiveLabels.forEach((label, i) => {
+      if (!label) return;
+
+      const objective = this.objectives[i];
+      label.node.active = !!objective;
+      if (!objective) return;
+
+      label.string = describeObjective(objective);
+      label.node.color = isObjectiveComplete(objective)
+        ? this.completedColor
+        : this.activeColor;
+    });
+  }
+}
@@ -1,5 +1,8 @@
 const { ccclass, property } = cc._decorator;
 import { GameStateData } from '../app/GameState';
+import { countStars } from '../app/LevelResult';
+import { formatTime, GameMode } from '../app/TimedMode';
+import { getPlayerName } from '../app/HotSeat';
 
 @ccclass
 export default class HUDScore extends cc.Component {
@@ -11,9 +14,40 @@ export default class HUDScore extends cc.Component {
   @property(cc.Label)
   valueLabel: cc.Label = null;
 
+  /** Moves left, the clock ("1:05") on timed levels, moves made on endless ones. */
   @property(cc.Label)
   movesLabel: cc.Label = null;
 
+  /** Clock color while a booster keeps it stopped. */
+  @property(cc.Color)
+  frozenTimeColor: cc.Color = cc.color(120, 200, 255);
+
+  // === STAR PROGRESS (OPTIONAL) ===
+
+  /** Fills up to the last star threshold. */
+  @property(cc.ProgressBar)
+  starProgressBar: cc.ProgressBar = null;
+
+  /** One node per star, dimmed until its threshold is reached. */
+  @property([cc.Node])
+  starNodes: cc.Node[] = [];
+
+  @property
+  dimmedStarOpacity: number = 80;
+
+  // === HOT-SEAT PLAYERS (OPTIONAL) ===
+
+  /** One label per player ("Игрок 1: 120"), hidden for a single player. */
+  @property([cc.Label])
+  playerLabels: cc.Label[] = [];
+
+  /** Color of the player whose turn it is. */
+  @property(cc.Color)
+  activePlayerColor: cc.Color = cc.color(255, 220, 80);
+
+  @property(cc.Color)
+  idlePlayerColor: cc.Color = cc.color(255, 255, 255);
+
   // === DEFAULT VALUES (OVERRIDDEN FROM INSPECTOR IF NEEDED) ===
 
   @property
@@ -28,9 +62,26 @@ export default class HUDScore extends cc.Component {
   @property
   moves: number = 0; // moves left
 
+  private starThresholds: number[] = [];
+  private mode: GameMode = 'moves';
+  private movesMade: number = 0;
+
+  /** Seconds left, null when the level counts moves. */
+  private timeLeft: number | null = null;
+  private timeFrozen: boolean = false;
+  private movesColor: cc.Color = null;
+
+  /** Score of every player, empty for a single player. */
+  private playerScores: number[] = [];
+  private activePlayer: number = 0;
+
   // === LIFECYCLE ===
 
   onLoad() {
+    if (this.movesLabel) {
+      this.movesColor = this.movesLabel.node.color.clone();
+    }
+
     // Render whatever is configured in the inspector at startup
     this.refreshLabels();
   }
@@ -44,6 +95,13 @@ export default class HUDScore extends cc.Component {
     this.current = state.score;
     this.target = state.targetScore;
     this.moves = state.movesLeft;
+    this.movesMade = state.movesMade;
+    this.mode = state.mode;
+    this.starThresholds = state.starThresholds;
+    this.timeLeft = state.mode === 'timed' ? state.timeLeft : null;
+    this.timeFrozen = state.freezeLeft > 0;
+    this.playerScores = state.players.map((p) => p.score);
+    this.activePlayer = state.activePlayer;
 
     this.refreshLabels();
   }
@@ -63,6 +121,13 @@ export default class HUDScore extends cc.Component {
     this.refreshLabels();
   }
 
+  /** Update the clock only (timed levels, every frame). */
+  public setTime(seconds: number, frozen: boolean) {
+    this.timeLeft = seconds;
+    this.timeFrozen = frozen;
+    this.refreshMoves();
+  }
+
   // === INTERNAL HELPERS ===
 
   private refreshLabels() {
@@ -71,11 +136,64 @@ export default class HUDScore extends cc.Component {
     }
 
     if (this.valueLabel) {
-      this.valueLabel.string = `${this.current}/${this.target}`;
+      // endless runs have no target
+      this.valueLabel.string =
+        this.mode === 'endless'
+          ? `${this.current}`
+          : `${this.current}/${this.target}`;
     }
 
-    if (this.movesLabel) {
+    this.refreshMoves();
+    this.refreshStars();
+    this.refreshPlayers();
+  }
+
+  private refreshMoves() {
+    if (!this.movesLabel) return;
+
+    if (this.timeLeft !== null) {
+      this.movesLabel.string = formatTime(this.timeLeft);
+    } else if (this.mode === 'endless') {
+      this.movesLabel.string = `${this.movesMade}`;
+    } else {
       this.movesLabel.string = `${this.moves}`;
     }
+
+    if (this.movesColor) {
+      this.movesLabel.node.color =
+        this.timeFrozen && this.timeLeft !== null
+          ? this.frozenTimeColor
+          : this.movesColor;
+    }
+  }
+
+  /** Hot-seat: both scores, the active player highlighted. */
+  private refreshPlayers() {
+    this.playerLabels.forEach((label, i) => {
+      if (!label) return;
+
+      const shown = i < this.playerScores.length;
+      label.node.active = shown;
+      if (!shown) return;
+
+      label.string = `${getPlayerName(i)}: ${this.playerScores[i]}`;
+      label.node.color =
+        i === this.activePlayer ? this.activePlayerColor : this.idlePlayerColor;
+    });
+  }
+
+  private refreshStars() {
+    const thresholds = this.starThresholds;
+    if (thresholds.length === 0) return;
+
+    if (this.starProgressBar) {
+      const max = thresholds[thresholds.length - 1];
+      this.starProgressBar.progress = Math.min(1, this.current / max);
+    }
+
+    const stars = countStars(this.current, thresholds);
+    this.starNodes.forEach((node, i) => {
+      if (node) node.opacity = i < stars ? 255 : this.dimmedStarOpacity;
+    });
   }
 }
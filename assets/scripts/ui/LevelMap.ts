@@ -0,0 +1,42 @@
+import LevelMapButton, { LevelMapEntry } from './LevelMapButton';
+
+const { ccclass, property } = cc._decorator;
+
+/**
+ * Level select screen:
+ * - one LevelMapButton per level inside `content` (e.g. a layout in a scroll view)
+ * - GameEntry fills it from the level list and the stored progress
+ */
+@ccclass
+export default class LevelMap extends cc.Component {
+  /** Parent of the level buttons. Defaults to the component node. */
+  @property(cc.Node)
+  content: cc.Node = null;
+
+  @property(cc.Prefab)
+  levelButtonPrefab: cc.Prefab = null;
+
+  // === PUBLIC API ===
+
+  /** Rebuild the buttons and show the map. */
+  public show(entries: LevelMapEntry[]) {
+    const content = this.content || this.node;
+    content.removeAllChildren();
+
+    for (const entry of entries) {
+      if (!this.levelButtonPrefab) break;
+
+      const node = cc.instantiate(this.levelButtonPrefab);
+      node.parent = content;
+
+      const button = node.getComponent(LevelMapButton);
+      if (button) button.setup(entry);
+    }
+
+    this.node.active = true;
+  }
+
+  public hide() {
+    this.node.active = false;
+  }
+}
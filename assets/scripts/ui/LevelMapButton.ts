@@ -0,0 +1,73 @@
+import EventBus from '../app/EventBus';
+import { AppSignal } from '../app/AppSignals';
+import { STAR_COUNT } from '../app/LevelResult';
+
+const { ccclass, property } = cc._decorator;
+
+/** What the level map shows for one level. */
+export interface LevelMapEntry {
+  levelId: string;
+  /** 1-based number shown on the button. */
+  number: number;
+  unlocked: boolean;
+  stars: number;
+  bestScore: number;
+}
+
+/**
+ * One level on the map (created from a prefab by LevelMap):
+ * - number, earned stars and best score
+ * - locked levels can't be clicked
+ * - click handler (assigned in the inspector) emits LEVEL_SELECTED
+ */
+@ccclass
+export default class LevelMapButton extends cc.Component {
+  @property(cc.Button)
+  button: cc.Button = null;
+
+  @property(cc.Label)
+  numberLabel: cc.Label = null;
+
+  /** Shows earned stars as "★★☆". */
+  @property(cc.Label)
+  starsLabel: cc.Label = null;
+
+  @property(cc.Label)
+  bestScoreLabel: cc.Label = null;
+
+  /** Lock icon, visible on locked levels. */
+  @property(cc.Node)
+  lockNode: cc.Node = null;
+
+  private levelId: string = '';
+
+  // === PUBLIC API ===
+
+  public setup(entry: LevelMapEntry) {
+    this.levelId = entry.levelId;
+
+    if (this.numberLabel) this.numberLabel.string = `${entry.number}`;
+
+    if (this.starsLabel) {
+      let stars = '';
+      for (let i = 0; i < STAR_COUNT; i++) {
+        stars += i < entry.stars ? '★' : '☆';
+      }
+      this.starsLabel.string = entry.unlocked ? stars : '';
+    }
+
+    if (this.bestScoreLabel) {
+      this.bestScoreLabel.string =
+        entry.bestScore > 0 ? `${entry.bestScore}` : '';
+    }
+
+    if (this.lockNode) this.lockNode.active = !entry.unlocked;
+    if (this.button) this.button.interactable = entry.unlocked;
+  }
+
+  /** Click handler assigned to the button. */
+  public onClick() {
+    if (this.button && !this.button.interactable) return;
+    EventBus.I.emit(AppSignal.LEVEL_SELECTED, this.levelId);
+  }
+}
@@ -0,0 +1,76 @@
+const { ccclass, property } = cc._decorator;
+import PopupResults from './PopupResults';
+import { LevelResult } from '../app/LevelResult';
+import { copyText } from '../shared/Clipboard';
+
+/**
+ * Results popup of the daily challenge:
+ * - everything PopupResults shows
+ * - streak of won days
+ * - text summary with a "copy" button
+ */
+@ccclass
+export default class PopupDaily extends PopupResults {
+  @property(cc.Label)
+  streakLabel: cc.Label = null;
+
+  /** Multiline label with the summary text that gets copied. */
+  @property(cc.Label)
+  summaryLabel: cc.Label = null;
+
+  /** Label on the copy button, shows the copy status for a moment. */
+  @property(cc.Label)
+  copyLabel: cc.Label = null;
+
+  @property
+  copyText: string = 'Копировать';
+
+  private summary: string = '';
+
+  // === PUBLIC API ===
+
+  /**
+   * Show the daily results. `result` is null when today's challenge
+   * was already played: only the counted summary is shown then.
+   */
+  public showDaily(
+    title: string,
+    result: LevelResult | null,
+    summary: string,
+    streak: number
+  ) {
+    this.summary = summary;
+
+    if (this.streakLabel) {
+      this.streakLabel.string = `Серия: ${streak}`;
+    }
+    if (this.summaryLabel) {
+      this.summaryLabel.string = summary;
+    }
+    this.setCopyStatus(this.copyText);
+
+    if (result) {
+      this.showResult(title, result);
+    } else {
+      this.show(title);
+    }
+  }
+
+  /** OnClick handler for the copy button (hooked up in the editor). */
+  public onCopyButtonClick() {
+    if (!this.summary) return;
+
+    copyText(this.summary, (ok) => {
+      this.setCopyStatus(ok ? 'Скопировано' : 'Не удалось');
+      this.scheduleOnce(() => this.setCopyStatus(this.copyText), 1.5);
+    });
+  }
+
+  // === INTERNAL HELPERS ===
+
+  private setCopyStatus(text: string) {
+    if (this.copyLabel) {
+      this.copyLabel.string = text;
+    }
+  }
+}
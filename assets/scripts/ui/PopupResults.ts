@@ -0,0 +1,97 @@
+const { ccclass, property } = cc._decorator;
+import PopupSimple from './PopupSimple';
+import { LevelResult, ScoreSource } from '../app/LevelResult';
+import { formatTime } from '../app/TimedMode';
+import { LevelRecord } from '../app/LevelProgress';
+import { formatMatchSummary } from '../app/HotSeat';
+
+const SOURCE_TITLES: { [source in ScoreSource]: string } = {
+  groups: 'Группы',
+  specials: 'Супер-тайлы',
+  bombs: 'Бомбы',
+  movesBonus: 'Бонус за ходы',
+  boostersBonus: 'Бонус за бустеры',
+};
+
+/**
+ * Win / lose popup with level results:
+ * - stars earned
+ * - score breakdown by source
+ * - moves (or time) and boosters left
+ * - best result of the level (endless runs)
+ * - scores of both players and the match winner (hot-seat)
+ */
+@ccclass
+export default class PopupResults extends PopupSimple {
+  @property(cc.Label)
+  scoreLabel: cc.Label = null;
+
+  /** Multiline label, one score source per line. */
+  @property(cc.Label)
+  breakdownLabel: cc.Label = null;
+
+  @property(cc.Label)
+  remainingLabel: cc.Label = null;
+
+  /** Best score and distance; hidden unless a record is passed. */
+  @property(cc.Label)
+  bestLabel: cc.Label = null;
+
+  /** Multiline label with the player scores; hidden for a single player. */
+  @property(cc.Label)
+  playersLabel: cc.Label = null;
+
+  /** One node per star, hidden unless earned. */
+  @property([cc.Node])
+  starNodes: cc.Node[] = [];
+
+  // === PUBLIC API ===
+
+  /** Show popup with a title and the results of the finished level. */
+  public showResult(
+    title: string,
+    result: LevelResult,
+    best: LevelRecord | null = null
+  ) {
+    if (this.scoreLabel) {
+      this.scoreLabel.string = `${result.score}`;
+    }
+
+    if (this.breakdownLabel) {
+      this.breakdownLabel.string = result.breakdown
+        .map((line) => `${SOURCE_TITLES[line.source]}: ${line.points}`)
+        .join('\n');
+    }
+
+    if (this.remainingLabel) {
+      let limit = `Ходы: ${result.movesLeft}`;
+      if (result.mode === 'timed' && result.timeLeft !== null) {
+        limit = `Время: ${formatTime(result.timeLeft)}`;
+      } else if (result.mode === 'endless') {
+        limit = `Пройдено ходов: ${result.movesMade}`;
+      }
+      this.remainingLabel.string = `${limit}  Бомбы: ${result.bombsLeft}  Телепорты: ${result.teleportsLeft}`;
+    }
+
+    if (this.bestLabel) {
+      this.bestLabel.node.active = !!best;
+      if (best) {
+        this.bestLabel.string = `Рекорд: ${best.bestScore} очков, ${best.bestMoves} ходов`;
+      }
+    }
+
+    if (this.playersLabel) {
+      const scores = result.playerScores;
+      this.playersLabel.node.active = scores.length > 0;
+      if (scores.length > 0) {
+        this.playersLabel.string = formatMatchSummary(scores);
+      }
+    }
+
+    this.starNodes.forEach((node, i) => {
+      if (node) node.active = i < result.stars;
+    });
+
+    this.show(title);
+  }
+}
@@ -4,6 +4,7 @@ const { ccclass, property } = cc._decorator;
  * Generic popup with a title and single OK button.
  * Used for WIN / LOSE screens. The actual reaction to OK is
  * passed via the `onOk` callback from GameEntry.
+ * An optional "Next level" button is shown only when `onNext` is set.
  */
 @ccclass
 export default class PopupSimple extends cc.Component {
@@ -17,9 +18,15 @@ export default class PopupSimple extends cc.Component {
   @property(cc.Button)
   okButton: cc.Button = null;
 
+  @property(cc.Button)
+  nextButton: cc.Button = null;
+
   /** Callback invoked when OK is pressed. Assigned from GameEntry. */
   public onOk: (() => void) | null = null;
 
+  /** "Next level" callback, null hides the button. Assigned from GameEntry. */
+  public onNext: (() => void) | null = null;
+
   private baseScale: number = 1;
 
   // === LIFECYCLE ===
@@ -47,6 +54,10 @@ export default class PopupSimple extends cc.Component {
 
     this.node.active = true;
 
+    if (this.nextButton) {
+      this.nextButton.node.active = !!this.onNext;
+    }
+
     this.panel.opacity = 0;
     this.panel.scale = this.baseScale * 0.75;
 
@@ -78,4 +89,11 @@ export default class PopupSimple extends cc.Component {
       this.onOk();
     }
   }
+
+  /** OnClick handler for the "Next level" button (hooked up in the editor). */
+  public onNextButtonClick() {
+    if (this.onNext) {
+      this.onNext();
+    }
+  }
 }
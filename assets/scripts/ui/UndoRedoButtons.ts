@@ -0,0 +1,45 @@
+import { debugLog } from '../debug/Debug';
+import EventBus from '../app/EventBus';
+import { AppSignal } from '../app/AppSignals';
+
+const { ccclass, property } = cc._decorator;
+
+/**
+ * Undo / redo button pair:
+ * - click handlers (assigned in the inspector) emit UNDO / REDO signals
+ * - buttons are disabled while there is nothing to undo / redo
+ */
+@ccclass
+export default class UndoRedoButtons extends cc.Component {
+  @property(cc.Button)
+  undoButton: cc.Button = null;
+
+  @property(cc.Button)
+  redoButton: cc.Button = null;
+
+  // === PUBLIC API ===
+
+  public setAvailable(canUndo: boolean, canRedo: boolean) {
+    setButtonEnabled(this.undoButton, canUndo);
+    setButtonEnabled(this.redoButton, canRedo);
+  }
+
+  /** Click handler assigned to the undo button. */
+  public onUndoClick() {
+    debugLog('UndoRedoButtons', 'UNDO');
+    EventBus.I.emit(AppSignal.UNDO_CLICKED);
+  }
+
+  /** Click handler assigned to the redo button. */
+  public onRedoClick() {
+    debugLog('UndoRedoButtons', 'REDO');
+    EventBus.I.emit(AppSignal.REDO_CLICKED);
+  }
+}
+
+function setButtonEnabled(button: cc.Button, enabled: boolean) {
+  if (!button) return;
+
+  button.interactable = enabled;
+  button.node.opacity = enabled ? 255 : 160;
+}
@@ -0,0 +1,202 @@
+// tools/simulator/Bots.ts
+
+import GameSession from '../../assets/scripts/app/GameSession';
+import { GameConfig } from '../../assets/scripts/app/AppConfig';
+import BoardModel from '../../assets/scripts/domain/BoardModel';
+import { RandomSource } from '../../assets/scripts/shared/Random';
+import { TilePos } from '../../assets/scripts/shared/types';
+
+/** One player decision, translated into GameSession commands by the simulator. */
+export type BotMove =
+  | { type: 'tile'; pos: TilePos }
+  | { type: 'bomb'; pos: TilePos }
+  | { type: 'teleport'; from: TilePos; to: TilePos };
+
+/**
+ * Bot strategy: looks at the session and picks the next move.
+ * Returns null if it sees nothing to do (the simulator then stops the game).
+ */
+export interface Bot {
+  readonly name: string;
+  chooseMove(session: GameSession, random: RandomSource): BotMove | null;
+}
+
+/**
+ * Taps a random group or a random special lying on the board,
+ * like a player who taps whatever can be tapped.
+ */
+export class RandomBot implements Bot {
+  readonly name = 'random';
+
+  public chooseMove(
+    session: GameSession,
+    random: RandomSource
+  ): BotMove | null {
+    const groups = session.board.findAllGroups(GameConfig.minGroupSize);
+    const specials = findSpecials(session.board);
+    const count = groups.length + specials.length;
+    if (count === 0) return null;
+
+    const index = random.nextInt(count);
+    if (index < specials.length) {
+      return { type: 'tile', pos: specials[index] };
+    }
+
+    const group = groups[index - specials.length];
+    return { type: 'tile', pos: group[random.nextInt(group.length)] };
+  }
+}
+
+/**
+ * Fires specials lying on the board first (they don't cost a move),
+ * then always taps the largest group.
+ */
+export class GreedyBot implements Bot {
+  readonly name = 'greedy';
+
+  public chooseMove(session: GameSession): BotMove | null {
+    const specials = findSpecials(session.board);
+    if (specials.length > 0) {
+      return { type: 'tile', pos: specials[0] };
+    }
+
+    const group = findLargestGroup(session.board);
+    return group ? { type: 'tile', pos: group[0] } : null;
+  }
+}
+
+/**
+ * Greedy player that also spends boosters and specials:
+ * - fires specials lying on the board first (they don't cost a move)
+ * - teleports a tile if that makes a group big enough for a special
+ * - bombs the densest spot when only small groups are left
+ */
+export class BoosterAwareBot implements Bot {
+  readonly name = 'booster';
+
+  public chooseMove(session: GameSession): BotMove | null {
+    const board = session.board;
+    const data = session.state.data;
+
+    const specials = findSpecials(board);
+    if (specials.length > 0) {
+      return { type: 'tile', pos: specials[0] };
+    }
+
+    const group = findLargestGroup(board);
+    const size = group ? group.length : 0;
+
+    if (size < GameConfig.rocketMinGroupSize && data.teleportsLeft > 0) {
+      const swap = findBestSwap(board);
+      if (
+        swap &&
+        swap.size > size &&
+        swap.size >= GameConfig.rocketMinGroupSize
+      ) {
+        return { type: 'teleport', from: swap.from, to: swap.to };
+      }
+    }
+
+    if (size < GameConfig.rocketMinGroupSize && data.bombsLeft > 0) {
+      const target = findBombTarget(board, GameConfig.bombRadius);
+      if (target) {
+        return { type: 'bomb', pos: target };
+      }
+    }
+
+    return group ? { type: 'tile', pos: group[0] } : null;
+  }
+}
+
+/** Bots available from the command line, by name. */
+export function createBot(name: string): Bot | null {
+  switch (name) {
+    case 'random':
+      return new RandomBot();
+    case 'greedy':
+      return new GreedyBot();
+    case 'booster':
+      return new BoosterAwareBot();
+    default:
+      return null;
+  }
+}
+
+export const BOT_NAMES = ['random', 'greedy', 'booster'];
+
+// === BOARD HELPERS ===
+
+function findLargestGroup(board: BoardModel): TilePos[] | null {
+  let best: TilePos[] | null = null;
+  for (const group of board.findAllGroups(GameConfig.minGroupSize)) {
+    if (!best || group.length > best.length) best = group;
+  }
+  return best;
+}
+
+function findSpecials(board: BoardModel): TilePos[] {
+  const cells: TilePos[] = [];
+  for (let row = 0; row < board.rows; row++) {
+    for (let col = 0; col < board.cols; col++) {
+      if (board.hasActiveSpecial(row, col)) cells.push({ row, col });
+    }
+  }
+  return cells;
+}
+
+/** Try every neighbor swap and keep the one giving the biggest group. */
+function findBestSwap(
+  board: BoardModel
+): { from: TilePos; to: TilePos; size: number } | null {
+  let best: { from: TilePos; to: TilePos; size: number } | null = null;
+
+  for (let row = 0; row < board.rows; row++) {
+    for (let col = 0; col < board.cols; col++) {
+      const from: TilePos = { row, col };
+      if (!board.isMovable(row, col)) continue;
+
+      for (const to of board.getNeighbors(row, col)) {
+        if (!board.isMovable(to.row, to.col)) continue;
+        if (board.grid[row][col] === board.grid[to.row][to.col]) continue;
+
+        board.swapTiles(from, to);
+        const size = Math.max(
+          board.findGroup(from.row, from.col).length,
+          board.findGroup(to.row, to.col).length
+        );
+        board.swapTiles(from, to);
+
+        if (!best || size > best.size) {
+          best = { from, to, size };
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+/** Cell whose bomb square covers the most destructible tiles. */
+function findBombTarget(board: BoardModel, radius: number): TilePos | null {
+  let best: TilePos | null = null;
+  let bestCount = 0;
+
+  for (let row = 0; row < board.rows; row++) {
+    for (let col = 0; col < board.cols; col++) {
+      let count = 0;
+      for (let r = row - radius; r <= row + radius; r++) {
+        for (let c = col - radius; c <= col + radius; c++) {
+          if (r < 0 || r >= board.rows || c < 0 || c >= board.cols) continue;
+          if (board.isDestructible(r, c)) count++;
+        }
+      }
+
+      if (count > bestCount) {
+        best = { row, col };
+        bestCount = count;
+      }
+    }
+  }
+
+  return best;
+}
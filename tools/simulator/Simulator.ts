@@ -0,0 +1,143 @@
+// tools/simulator/Simulator.ts
+
+import GameSession from '../../assets/scripts/app/GameSession';
+import { GameEvent } from '../../assets/scripts/app/GameEvents';
+import { LevelDefinition } from '../../assets/scripts/app/LevelDefinition';
+import { createLevelResult } from '../../assets/scripts/app/LevelResult';
+import SeededRandom from '../../assets/scripts/shared/Random';
+import { Bot, BotMove } from './Bots';
+
+/** Safety net against bots that never end the game. */
+const MAX_ACTIONS_PER_GAME = 1000;
+
+/** Clock time a bot "thinks" per move on timed levels. */
+const BOT_SECONDS_PER_MOVE = 2;
+
+export interface GameResult {
+  seed: number;
+  won: boolean;
+  score: number;
+  stars: number;
+  /** Moves left (whole seconds left on timed levels). */
+  movesLeft: number;
+  /** Group moves made (the distance of endless runs). */
+  movesMade: number;
+  reshufflesUsed: number;
+  bombsUsed: number;
+  teleportsUsed: number;
+}
+
+export interface LevelStats {
+  bot: string;
+  games: number;
+  winRate: number;
+  avgScore: number;
+  /** Average stars of won games (0 if none were won). */
+  avgStarsOnWin: number;
+  avgReshufflesUsed: number;
+  /** Average moves left at the end of won games (0 if none were won). */
+  avgMovesLeftOnWin: number;
+  avgMovesMade: number;
+  avgBombsUsed: number;
+  avgTeleportsUsed: number;
+}
+
+/**
+ * Play one game of `level` with a bot. The board uses `seed`,
+ * bot decisions use a separate random stream derived from it.
+ */
+export function playGame(
+  level: LevelDefinition,
+  bot: Bot,
+  seed: number
+): GameResult {
+  const session = new GameSession(level, seed);
+  const botRandom = new SeededRandom(seed ^ 0x5f3759df);
+
+  let events = session.start();
+
+  for (let i = 0; i < MAX_ACTIONS_PER_GAME && !session.isOver(); i++) {
+    if (hasEvent(events, 'noMoves')) {
+      events = session.reshuffle();
+      continue;
+    }
+
+    const move = bot.chooseMove(session, botRandom);
+    if (!move) break;
+
+    events = applyMove(session, move);
+
+    if (session.state.isTimed()) {
+      events = events.concat(session.tick(BOT_SECONDS_PER_MOVE));
+    }
+  }
+
+  const data = session.state.data;
+
+  return {
+    seed,
+    won: data.gameOverReason === 'win',
+    score: data.score,
+    stars: createLevelResult(data).stars,
+    movesLeft:
+      data.mode === 'timed' ? Math.floor(data.timeLeft) : data.movesLeft,
+    movesMade: data.movesMade,
+    reshufflesUsed: level.reshuffleLimit - data.reshufflesLeft,
+    bombsUsed: level.bombs - data.bombsLeft,
+    teleportsUsed: level.teleports - data.teleportsLeft,
+  };
+}
+
+/** Play `games` games with consecutive seeds starting at `firstSeed`. */
+export function simulateLevel(
+  level: LevelDefinition,
+  bot: Bot,
+  games: number,
+  firstSeed: number = 1
+): LevelStats {
+  const results: GameResult[] = [];
+  for (let i = 0; i < games; i++) {
+    results.push(playGame(level, bot, firstSeed + i));
+  }
+
+  const wins = results.filter((r) => r.won);
+
+  return {
+    bot: bot.name,
+    games,
+    winRate: wins.length / Math.max(games, 1),
+    avgScore: average(results, (r) => r.score),
+    avgStarsOnWin: average(wins, (r) => r.stars),
+    avgReshufflesUsed: average(results, (r) => r.reshufflesUsed),
+    avgMovesLeftOnWin: average(wins, (r) => r.movesLeft),
+    avgMovesMade: average(results, (r) => r.movesMade),
+    avgBombsUsed: average(results, (r) => r.bombsUsed),
+    avgTeleportsUsed: average(results, (r) => r.teleportsUsed),
+  };
+}
+
+/** Translate a bot move into session commands; returns events of the last one. */
+function applyMove(session: GameSession, move: BotMove): GameEvent[] {
+  switch (move.type) {
+    case 'tile':
+      return session.clickTile(move.pos);
+    case 'bomb':
+      if (!session.isBombActive()) session.toggleBomb();
+      return session.clickTile(move.pos);
+    case 'teleport':
+      if (!session.isTeleportActive()) session.toggleTeleport();
+      session.clickTile(move.from);
+      return session.clickTile(move.to);
+  }
+}
+
+function hasEvent(events: GameEvent[], type: GameEvent['type']): boolean {
+  return events.some((e) => e.type === type);
+}
+
+function average<T>(items: T[], value: (item: T) => number): number {
+  if (items.length === 0) return 0;
+  let sum = 0;
+  for (const item of items) sum += value(item);
+  return sum / items.length;
+}
@@ -0,0 +1,153 @@
+// tools/simulator/simulate.ts
+//
+// Batch level simulator (plain Node, no Cocos):
+//   node temp/sim/tools/simulator/simulate.js --games 1000 --bot all
+//
+// Options:
+//   --games N     games per bot (default 1000)
+//   --seed N      first seed, games use N, N+1, ... (default 1)
+//   --bot NAME    random | greedy | booster | all (default all)
+//   --level PATH  level JSON (default: global configs)
+//   --moves N     override level moves
+//   --target N    override level target score
+//   --mega N      override GameConfig.megaBombMinGroupSize
+//   --scoring P   override level scoring with a preset (classic | combo)
+//   --seconds N   play the level in timed mode with N seconds
+//                 (bots spend 2 seconds per move)
+
+import { GameConfig } from '../../assets/scripts/app/AppConfig';
+import {
+  createDefaultLevel,
+  LevelDefinition,
+  parseLevelDefinition,
+} from '../../assets/scripts/app/LevelDefinition';
+import { createDefaultStarThresholds } from '../../assets/scripts/app/LevelResult';
+import {
+  createScoringRules,
+  SCORING_PRESETS,
+} from '../../assets/scripts/app/Scoring';
+import { Bot, BOT_NAMES, createBot } from './Bots';
+import { LevelStats, simulateLevel } from './Simulator';
+
+// Node globals (the project has no Node typings)
+declare const process: { argv: string[]; exit(code: number): never };
+declare function require(id: string): any;
+
+function main(argv: string[]) {
+  const args = parseArgs(argv);
+
+  const games = toInt(args['games'], 1000);
+  const firstSeed = toInt(args['seed'], 1);
+
+  if (args['mega']) {
+    GameConfig.megaBombMinGroupSize = toInt(args['mega'], 0);
+  }
+
+  const level = loadLevel(args['level']);
+  if (args['moves']) level.moves = toInt(args['moves'], level.moves);
+  if (args['target']) {
+    level.targetScore = toInt(args['target'], level.targetScore);
+    level.starThresholds = createDefaultStarThresholds(level.targetScore);
+  }
+  if (args['scoring']) {
+    const rules = createScoringRules(args['scoring']);
+    if (!rules) {
+      fail(
+        `unknown scoring "${
+          args['scoring']
+        }", expected one of: ${SCORING_PRESETS.join(', ')}`
+      );
+    }
+    level.scoring = rules!;
+  }
+  if (args['seconds']) {
+    level.mode = 'timed';
+    level.timer.seconds = toInt(args['seconds'], level.timer.seconds);
+  }
+
+  const botName = args['bot'] || 'all';
+  const names = botName === 'all' ? BOT_NAMES : [botName];
+  const bots: Bot[] = [];
+  for (const name of names) {
+    const bot = createBot(name);
+    if (!bot) {
+      fail(
+        `unknown bot "${name}", expected one of: ${BOT_NAMES.join(', ')}, all`
+      );
+    }
+    bots.push(bot!);
+  }
+
+  let limit = `moves=${level.moves}`;
+  if (level.mode === 'timed') limit = `time=${level.timer.seconds}s`;
+  if (level.mode === 'endless') limit = 'endless';
+  console.log(
+    `level=${level.id} ${limit} target=${level.targetScore} mega=${
+      GameConfig.megaBombMinGroupSize
+    } games=${games} seeds=${firstSeed}..${firstSeed + games - 1}`
+  );
+
+  for (const bot of bots) {
+    printStats(simulateLevel(level, bot, games, firstSeed));
+  }
+}
+
+function loadLevel(path: string | undefined): LevelDefinition {
+  if (!path) return createDefaultLevel();
+
+  try {
+    const fs = require('fs');
+    return parseLevelDefinition(
+      JSON.parse(fs.readFileSync(path, 'utf8')),
+      path
+    );
+  } catch (e) {
+    return fail(e.message);
+  }
+}
+
+function printStats(stats: LevelStats) {
+  console.log(
+    [
+      `[${stats.bot}]`,
+      `win ${(stats.winRate * 100).toFixed(1)}%`,
+      `score ${stats.avgScore.toFixed(0)}`,
+      `stars (wins) ${stats.avgStarsOnWin.toFixed(2)}`,
+      `reshuffles ${stats.avgReshufflesUsed.toFixed(2)}`,
+      `moves left (wins) ${stats.avgMovesLeftOnWin.toFixed(2)}`,
+      `moves made ${stats.avgMovesMade.toFixed(1)}`,
+      `bombs ${stats.avgBombsUsed.toFixed(2)}`,
+      `teleports ${stats.avgTeleportsUsed.toFixed(2)}`,
+    ].join('  ')
+  );
+}
+
+/** `--key value` pairs; a flag without a value gets "true". */
+function parseArgs(argv: string[]): { [key: string]: string } {
+  const result: { [key: string]: string } = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.indexOf('--') !== 0) continue;
+
+    const next = argv[i + 1];
+    if (next !== undefined && next.indexOf('--') !== 0) {
+      result[arg.slice(2)] = next;
+      i++;
+    } else {
+      result[arg.slice(2)] = 'true';
+    }
+  }
+  return result;
+}
+
+function toInt(value: string | undefined, fallback: number): number {
+  const n = parseInt(value || '', 10);
+  return isNaN(n) ? fallback : n;
+}
+
+function fail(message: string): never {
+  console.error(`[simulate] ${message}`);
+  return process.exit(1);
+}
+
+main(process.argv.slice(2));
@@ -0,0 +1,634 @@
+// tools/tests/run.ts
+//
+// Rule tests of the headless core (plain Node, no Cocos):
+//   node temp/sim/tools/tests/run.js
+//
+// Boards are written in the ASCII notation of domain/BoardNotation.ts.
+// Exits with code 1 if any test fails.
+
+import { GameConfig } from '../../assets/scripts/app/AppConfig';
+import {
+  GameEvent,
+  TilesRemovedEvent,
+} from '../../assets/scripts/app/GameEvents';
+import GameSession from '../../assets/scripts/app/GameSession';
+import { createHotSeatLevel } from '../../assets/scripts/app/HotSeat';
+import {
+  createDefaultLevel,
+  LevelDefinition,
+  LevelValidationError,
+  parseLevelDefinition,
+} from '../../assets/scripts/app/LevelDefinition';
+import {
+  decodeReplay,
+  encodeReplay,
+  Replay,
+  ReplayFormatError,
+} from '../../assets/scripts/app/Replay';
+import {
+  createSaveData,
+  parseSave,
+  SAVE_VERSION,
+  SaveFormatError,
+  serializeSave,
+} from '../../assets/scripts/app/SaveGame';
+import { HoleGravityRule } from '../../assets/scripts/domain/BoardModel';
+import {
+  createBoardFromNotation,
+  formatBoard,
+  parseBoard,
+} from '../../assets/scripts/domain/BoardNotation';
+import RuleScoring, {
+  createScoringRules,
+  MAX_EXPONENTIAL_MULTIPLIER,
+  ScoringRules,
+} from '../../assets/scripts/app/Scoring';
+import SeededRandom from '../../assets/scripts/shared/Random';
+import { TileColor, TileSpecial } from '../../assets/scripts/shared/types';
+
+// Node globals (the project has no Node typings)
+declare const process: { exit(code: number): never };
+
+interface TestCase {
+  name: string;
+  run: () => void;
+}
+
+const tests: TestCase[] = [];
+
+function test(name: string, run: () => void) {
+  tests.push({ name, run });
+}
+
+/** Deep equality through JSON: enough for boards, events and replays. */
+function assertEqual<T>(actual: T, expected: T, what: string) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${what}: expected ${e}, got ${a}`);
+  }
+}
+
+function assertThrows(
+  run: () => void,
+  errorClass: new (...args: any[]) => Error,
+  what: string
+) {
+  try {
+    run();
+  } catch (e) {
+    if (e instanceof errorClass) return;
+    throw e;
+  }
+  throw new Error(`${what}: expected a ${errorClass.name}`);
+}
+
+// === LEVEL HELPERS ===
+
+/** Level with a fixed layout in board notation, one string per row. */
+function createLayoutLevel(rows: string[]): LevelDefinition {
+  return {
+    ...createDefaultLevel(),
+    rows: rows.length,
+    cols: rows[0].length,
+    layout: parseBoard(rows.join('/')).grid,
+  };
+}
+
+/**
+ * Rows without two neighbors of the same color (red is not used),
+ * `cols` wide.
+ */
+function createNoGroupRows(rowCount: number, cols: number): string[] {
+  const patterns = ['GBPY', 'PYGB'];
+  const rows: string[] = [];
+
+  for (let r = 0; r < rowCount; r++) {
+    let line = '';
+    for (let c = 0; c < cols; c++) {
+      line += patterns[r % 2][c % 4];
+    }
+    rows.push(line);
+  }
+  return rows;
+}
+
+function startSession(level: LevelDefinition): GameSession {
+  const session = new GameSession(level, 1);
+  session.start();
+  return session;
+}
+
+function eventTypes(events: GameEvent[]): string[] {
+  return events.map((e) => e.type);
+}
+
+// === GROUP MOVES ===
+
+test('session: a group is removed, scored and costs a move', () => {
+  const rows = createNoGroupRows(4, 5);
+  rows[0] = 'RR' + rows[0].substr(2);
+  const session = startSession(createLayoutLevel(rows));
+
+  const events = session.clickTile({ row: 0, col: 0 });
+
+  assertEqual(
+    eventTypes(events).slice(0, 4),
+    ['tilesRemoved', 'tilesMoved', 'tilesSpawned', 'scoreChanged'],
+    'events'
+  );
+  assertEqual(
+    session.state.data.score,
+    2 * GameConfig.baseScorePerTile,
+    'score'
+  );
+  assertEqual(
+    session.state.data.movesLeft,
+    GameConfig.startMoves - 1,
+    'moves left'
+  );
+});
+
+test('session: a single tile is not a move', () => {
+  const session = startSession(createLayoutLevel(createNoGroupRows(4, 5)));
+
+  assertEqual(session.clickTile({ row: 0, col: 0 }), [], 'events');
+  assertEqual(session.state.data.movesLeft, GameConfig.startMoves, 'moves');
+});
+
+test('session: the last move below the target loses the level', () => {
+  const rows = createNoGroupRows(4, 5);
+  rows[0] = 'RR' + rows[0].substr(2);
+  const session = startSession({ ...createLayoutLevel(rows), moves: 1 });
+
+  const events = session.clickTile({ row: 0, col: 0 });
+
+  assertEqual(
+    events[events.length - 1],
+    { type: 'gameOver', reason: 'lose' },
+    'last event'
+  );
+  assertEqual(session.isOver(), true, 'over');
+});
+
+test('session: reaching the target score wins the level', () => {
+  const rows = createNoGroupRows(4, 5);
+  rows[0] = 'RR' + rows[0].substr(2);
+  const session = startSession({
+    ...createLayoutLevel(rows),
+    targetScore: 2 * GameConfig.baseScorePerTile,
+  });
+
+  const events = session.clickTile({ row: 0, col: 0 });
+
+  assertEqual(
+    events[events.length - 1],
+    { type: 'gameOver', reason: 'win' },
+    'last event'
+  );
+  assertEqual(session.state.data.movesLeft, GameConfig.startMoves - 1, 'moves');
+});
+
+// === GRAVITY WITH HOLES ===
+
+function fallOnce(text: string, holeGravity: HoleGravityRule): string {
+  const board = createBoardFromNotation(text, new SeededRandom(1), {
+    holeGravity,
+  });
+  board.applyGravity();
+  return formatBoard(board);
+}
+
+test('gravity: tiles fall through holes with "pass"', () => {
+  assertEqual(fallOnce('RG/#B/../.#', 'pass'), '..\n#G\n.B\nR#', 'board');
+});
+
+test('gravity: holes act as a floor with "stop"', () => {
+  assertEqual(fallOnce('RG/#B/../.#', 'stop'), 'R.\n#G\n.B\n.#', 'board');
+});
+
+test('gravity: stones stay in place and hold the tiles above', () => {
+  assertEqual(fallOnce('R/S/./G/.', 'pass'), 'R\nS\n.\n.\nG', 'board');
+});
+
+// === LEVEL FILES ===
+
+test('level: hex boards accept only vertical gravity', () => {
+  for (const gravity of ['down', 'up']) {
+    parseLevelDefinition({ topology: 'hex', gravity });
+  }
+  for (const gravity of ['left', 'right']) {
+    assertThrows(
+      () => parseLevelDefinition({ topology: 'hex', gravity }),
+      LevelValidationError,
+      `gravity "${gravity}"`
+    );
+  }
+});
+
+// === SPECIAL CREATION THRESHOLDS ===
+
+/** Specials created by tapping a red row of `size` tiles. */
+function tapGroup(size: number): TileSpecial[] {
+  const cols = Math.max(size + 1, 5);
+  const rows = createNoGroupRows(3, cols);
+  rows[0] = 'RRRRRRRRRR'.substr(0, size) + rows[0].substr(size);
+
+  const session = startSession(createLayoutLevel(rows));
+  const specials: TileSpecial[] = [];
+  for (const event of session.clickTile({ row: 0, col: 0 })) {
+    if (event.type === 'specialCreated') specials.push(event.special);
+  }
+  return specials;
+}
+
+test('specials: groups below the rocket size are just removed', () => {
+  assertEqual(tapGroup(GameConfig.rocketMinGroupSize - 1), [], 'specials');
+});
+
+test('specials: rocket, then color clear, then mega bomb by group size', () => {
+  const { rocketMinGroupSize, colorClearMinGroupSize, megaBombMinGroupSize } =
+    GameConfig;
+
+  for (let size = rocketMinGroupSize; size < colorClearMinGroupSize; size++) {
+    // a one-row group is wide: always a horizontal rocket
+    assertEqual(tapGroup(size), [TileSpecial.RocketH], `group of ${size}`);
+  }
+
+  for (let size = colorClearMinGroupSize; size < megaBombMinGroupSize; size++) {
+    assertEqual(tapGroup(size), [TileSpecial.ColorClear], `group of ${size}`);
+  }
+
+  assertEqual(
+    tapGroup(megaBombMinGroupSize),
+    [TileSpecial.MegaBomb],
+    `group of ${megaBombMinGroupSize}`
+  );
+});
+
+// === CHAIN REACTIONS ===
+
+test('chain: a mega bomb under the bomb booster fires in the next wave', () => {
+  const session = startSession(
+    createLayoutLevel(['PYGBP', 'GBPYG', 'PYMBP', 'GBPYG', 'PYGBP'])
+  );
+
+  session.toggleBomb();
+  const waves = session
+    .clickTile({ row: 2, col: 2 })
+    .filter((e): e is TilesRemovedEvent => e.type === 'tilesRemoved');
+
+  const side = 2 * GameConfig.bombRadius + 1;
+  assertEqual(
+    waves.map((w) => w.triggers.map((t) => t.kind)),
+    [['bomb'], [TileSpecial.MegaBomb]],
+    'wave triggers'
+  );
+  assertEqual(
+    waves.map((w) => w.cells.length),
+    [side * side, 25 - side * side],
+    'wave sizes'
+  );
+});
+
+// === OBJECTIVES ===
+
+test('objectives: collected tiles count towards a collect objective', () => {
+  const rows = createNoGroupRows(4, 5);
+  rows[0] = 'RR' + rows[0].substr(2);
+  const session = startSession({
+    ...createLayoutLevel(rows),
+    objectives: [
+      { type: 'collect', color: TileColor.Red, target: 5 },
+      { type: 'collect', color: TileColor.Green, target: 5 },
+    ],
+  });
+
+  session.clickTile({ row: 0, col: 0 });
+
+  assertEqual(
+    session.state.data.objectives.map((o) => o.current),
+    [2, 0],
+    'progress'
+  );
+  assertEqual(session.isOver(), false, 'over');
+});
+
+test('objectives: the last move that completes them wins the level', () => {
+  const rows = createNoGroupRows(4, 5);
+  rows[0] = 'RR' + rows[0].substr(2);
+  const session = startSession({
+    ...createLayoutLevel(rows),
+    moves: 1,
+    objectives: [{ type: 'collect', color: TileColor.Red, target: 2 }],
+  });
+
+  const events = session.clickTile({ row: 0, col: 0 });
+
+  assertEqual(
+    events[events.length - 1],
+    { type: 'gameOver', reason: 'win' },
+    'last event'
+  );
+});
+
+// === TIMED MODE ===
+
+function createTimedLevel(rows: string[]): LevelDefinition {
+  return {
+    ...createLayoutLevel(rows),
+    mode: 'timed',
+    timer: { seconds: 10, bonusPerTile: 1, boosterFreeze: 3 },
+  };
+}
+
+test('timed: groups add bonus seconds instead of spending moves', () => {
+  const rows = createNoGroupRows(4, 5);
+  rows[0] = 'RRR' + rows[0].substr(3);
+  const session = startSession(createTimedLevel(rows));
+
+  session.tick(2);
+  session.clickTile({ row: 0, col: 0 });
+
+  assertEqual(session.state.data.timeLeft, 9, 'time left');
+  assertEqual(session.state.data.movesLeft, GameConfig.startMoves, 'moves');
+});
+
+test('timed: the level ends when the clock runs out', () => {
+  const session = startSession(createTimedLevel(createNoGroupRows(4, 5)));
+
+  assertEqual(session.tick(9.5), [], 'events before expiry');
+  const events = session.tick(1);
+  assertEqual(
+    events[events.length - 1],
+    { type: 'gameOver', reason: 'lose' },
+    'last event at expiry'
+  );
+  assertEqual(session.state.data.timeLeft, 0, 'time left');
+  assertEqual(session.tick(1), [], 'events after the end');
+});
+
+// === ENDLESS MODE ===
+
+function refilledColors(events: GameEvent[]): string[] {
+  const colors: string[] = [];
+  for (const event of events) {
+    if (event.type !== 'tilesSpawned') continue;
+    for (const refill of event.refills) {
+      if (colors.indexOf(String(refill.color)) === -1) {
+        colors.push(String(refill.color));
+      }
+    }
+  }
+  return colors;
+}
+
+test('endless: refills use the stage colors and moves never run out', () => {
+  const rows = createNoGroupRows(4, 5);
+  rows[0] = 'RRR' + rows[0].substr(3);
+  const session = startSession({
+    ...createLayoutLevel(rows),
+    mode: 'endless',
+    moves: 1,
+    endless: {
+      startColors: 1,
+      movesPerStage: 10,
+      crateChance: 0,
+      crateChancePerStage: 0,
+      maxCrateChance: 0,
+    },
+  });
+
+  const events = session.clickTile({ row: 0, col: 0 });
+
+  assertEqual(refilledColors(events), [TileColor.Green], 'refill colors');
+  assertEqual(session.state.data.movesMade, 1, 'moves made');
+  assertEqual(session.isOver(), false, 'over');
+});
+
+// === HOT SEAT ===
+
+test('hot seat: the turn passes after a group, scores stay per player', () => {
+  const rows = createNoGroupRows(4, 5);
+  rows[0] = 'RRR' + rows[0].substr(3);
+  rows[3] = 'RR' + rows[3].substr(2);
+  const session = startSession(createHotSeatLevel(createLayoutLevel(rows)));
+
+  session.clickTile({ row: 0, col: 0 });
+  assertEqual(session.state.data.activePlayer, 1, 'player after move 1');
+
+  session.clickTile({ row: 3, col: 0 });
+  assertEqual(session.state.data.activePlayer, 0, 'player after move 2');
+
+  assertEqual(
+    session.state.data.players.map((p) => p.score),
+    [30, 20],
+    'player scores'
+  );
+  assertEqual(session.state.data.score, 50, 'shared score');
+});
+
+test('hot seat: a teleport that lands a drop item keeps the turn', () => {
+  const rows = createNoGroupRows(4, 5);
+  rows[0] = 'RR' + rows[0].substr(2);
+  const session = startSession(
+    createHotSeatLevel({
+      ...createLayoutLevel(rows),
+      obstacles: [{ row: 2, col: 3, type: 'drop' }],
+    })
+  );
+
+  session.toggleTeleport();
+  session.clickTile({ row: 2, col: 3 });
+  const events = session.clickTile({ row: 3, col: 3 });
+
+  assertEqual(
+    eventTypes(events).indexOf('dropItemsCollected') !== -1,
+    true,
+    'drop item collected'
+  );
+  assertEqual(session.state.data.activePlayer, 0, 'active player');
+  assertEqual(
+    session.state.data.movesLeft,
+    GameConfig.startMoves,
+    'moves left'
+  );
+});
+
+// === SCORING PRESETS ===
+
+function presetRules(preset: string): ScoringRules {
+  const rules = createScoringRules(preset);
+  if (!rules) throw new Error(`unknown preset "${preset}"`);
+  return rules;
+}
+
+function groupScores(rules: ScoringRules, sizes: number[]): number[] {
+  const scoring = new RuleScoring(rules);
+  return sizes.map((size) => scoring.scoreGroup(size));
+}
+
+test('scoring: "classic" pays the same for every tile', () => {
+  assertEqual(
+    groupScores(presetRules('classic'), [2, 3, 5, 8]),
+    [20, 30, 50, 80],
+    'group scores'
+  );
+  assertEqual(
+    new RuleScoring(presetRules('classic')).scoreLevelEnd(5, 1, 1),
+    { moves: 0, boosters: 0 },
+    'level end bonus'
+  );
+});
+
+test('scoring: "combo" grows with group size and rewards leftovers', () => {
+  assertEqual(
+    groupScores(presetRules('combo'), [2, 3, 5, 8]),
+    [20, 45, 125, 320],
+    'group scores'
+  );
+  assertEqual(
+    new RuleScoring(presetRules('combo')).scoreLevelEnd(5, 1, 1),
+    { moves: 250, boosters: 200 },
+    'level end bonus'
+  );
+});
+
+test('scoring: the exponential curve gets its own factor in both presets', () => {
+  for (const preset of ['classic', 'combo']) {
+    const level = parseLevelDefinition({
+      scoring: { preset, curve: 'exponential' },
+    });
+    assertEqual(
+      groupScores(level.scoring, [2, 3, 5, 8]),
+      [20, 36, 86, 239],
+      `${preset} group scores`
+    );
+  }
+});
+
+test('scoring: exponential factors below 1 are rejected, growth is capped', () => {
+  assertThrows(
+    () =>
+      parseLevelDefinition({
+        scoring: { curve: 'exponential', curveFactor: 0.5 },
+      }),
+    LevelValidationError,
+    'curveFactor 0.5'
+  );
+
+  const level = parseLevelDefinition({
+    scoring: { preset: 'combo', curve: 'exponential', curveFactor: 3 },
+  });
+  assertEqual(
+    groupScores(level.scoring, [3, 8, 20]),
+    [90, 80 * MAX_EXPONENTIAL_MULTIPLIER, 200 * MAX_EXPONENTIAL_MULTIPLIER],
+    'group scores'
+  );
+});
+
+test('scoring: a level with the "combo" preset scores groups by it', () => {
+  const rows = createNoGroupRows(4, 5);
+  rows[0] = 'RRR' + rows[0].substr(3);
+  const session = startSession({
+    ...createLayoutLevel(rows),
+    scoring: presetRules('combo'),
+  });
+
+  session.clickTile({ row: 0, col: 0 });
+
+  assertEqual(session.state.data.score, 45, 'score');
+});
+
+// === REPLAYS ===
+
+test('replay: encode / decode round trip', () => {
+  const replay: Replay = {
+    levelId: 'level 01',
+    seed: 0xdeadbeef,
+    actions: [
+      { type: 'tile', row: 0, col: 10 },
+      { type: 'bomb' },
+      { type: 'tile', row: 35, col: 35 },
+      { type: 'teleport' },
+      { type: 'noMovesOk' },
+      { type: 'undo' },
+      { type: 'redo' },
+      { type: 'timeUp' },
+    ],
+  };
+
+  assertEqual(decodeReplay(encodeReplay(replay)), replay, 'replay');
+});
+
+test('replay: coordinates past the board size limit are rejected', () => {
+  const replay: Replay = {
+    levelId: 'level_01',
+    seed: 1,
+    actions: [{ type: 'tile', row: 36, col: 0 }],
+  };
+
+  assertThrows(() => encodeReplay(replay), ReplayFormatError, 'row 36');
+});
+
+test('replay: a malformed level id is a format error', () => {
+  assertThrows(
+    () => decodeReplay('R1;%E0%A4%A;1;00'),
+    ReplayFormatError,
+    'level id'
+  );
+});
+
+// === SAVES ===
+
+test('save: a resumed game continues from the saved position', () => {
+  const rows = createNoGroupRows(4, 5);
+  rows[0] = 'RR' + rows[0].substr(2);
+  const level = createLayoutLevel(rows);
+  const session = startSession(level);
+  session.clickTile({ row: 0, col: 0 });
+
+  const replay: Replay = {
+    levelId: level.id,
+    seed: session.seed,
+    actions: [{ type: 'tile', row: 0, col: 0 }],
+  };
+  const save = parseSave(serializeSave(createSaveData(session, replay)));
+
+  const resumed = startSession(level);
+  resumed.restoreSnapshot({ board: save.board, state: save.state });
+
+  assertEqual(resumed.createSnapshot(), session.createSnapshot(), 'snapshot');
+  assertEqual(decodeReplay(save.replay), replay, 'replay');
+});
+
+test('save: unknown versions are rejected', () => {
+  for (const version of [0, SAVE_VERSION + 1]) {
+    assertThrows(
+      () => parseSave(JSON.stringify({ version })),
+      SaveFormatError,
+      `version ${version}`
+    );
+  }
+});
+
+// === RUN ===
+
+function main() {
+  let failed = 0;
+
+  for (const { name, run } of tests) {
+    try {
+      run();
+      console.log(`ok    ${name}`);
+    } catch (e) {
+      failed++;
+      console.log(`FAIL  ${name}\n      ${e.message}`);
+    }
+  }
+
+  console.log(`\n${tests.length - failed} passed, ${failed} failed`);
+  if (failed > 0) process.exit(1);
+}
+
+main();